@@ -0,0 +1,305 @@
+/**
+ * Command-line application of a reviewed decision set to a .docx chapter
+ * Regenerates the corrections from the pipeline JSON, takes each one's status from the decision list
+ * and writes the accepted ones into a copy of the chapter as tracked changes.
+ *
+ * Usage: apply-docx <chapter.docx> <pipeline.json> <decisions.json> --output <file> [--author <name>] [--date <ISO date>]
+ *                   [--granularity character|word|sentence] [--verbose]
+ *
+ * The decision list is an exported audit report (JSON), or any list of { correctionId | id, status }.
+ * Correction IDs are positional, so a report that records its granularity and each correction's
+ * diffText and origin span is checked against the regenerated corrections: the recorded granularity
+ * is used unless --granularity is given, and a decision whose correction no longer matches is not applied.
+ * Exit codes: 0 every accepted correction written, 1 bad arguments or unreadable input,
+ * 2 accepted corrections skipped, or decisions for unknown or mismatched corrections
+ */
+
+import * as fs from "fs";
+import { documentSchema } from "../taskpane/utils/jsonSchema";
+import {
+  generateCorrections,
+  CorrectionObject,
+  DocumentData,
+} from "../taskpane/utils/documentMapping";
+import { DiffGranularity, DEFAULT_GRANULARITY } from "../taskpane/utils/textDiff";
+import { readDocxParagraphs } from "./docxReader";
+import { applyCorrectionsToDocx } from "./docxRevisionWriter";
+
+const GRANULARITIES: DiffGranularity[] = ["character", "word", "sentence"];
+const STATUSES: CorrectionObject["status"][] = ["pending", "applied", "rejected", "skipped"];
+
+export const EXIT_OK = 0;
+export const EXIT_USAGE = 1;
+export const EXIT_INCOMPLETE = 2;
+
+const DEFAULT_AUTHOR = "Correction Review";
+
+const USAGE = `Usage: apply-docx <chapter.docx> <pipeline.json> <decisions.json> --output <file> [--author <name>] [--date <ISO date>] [--granularity character|word|sentence] [--verbose]`;
+
+export interface ApplyOptions {
+  docxPath: string;
+  jsonPath: string;
+  decisionsPath: string;
+  outputPath: string;
+  author: string;
+  date: Date | null;
+  granularity: DiffGranularity | null; // null: the granularity recorded with the decisions, else the default
+  verbose: boolean;
+}
+
+/**
+ * A reviewer's decision, with what the correction changed when it was reviewed if the export recorded it
+ */
+export interface Decision {
+  status: CorrectionObject["status"];
+  diffText?: string;
+  startOffset?: number; // Origin span in the Word paragraph
+  endOffset?: number;
+}
+
+/**
+ * Decisions by correction ID, and the granularity the corrections were generated with
+ */
+export interface DecisionSet {
+  granularity: DiffGranularity | null;
+  decisions: { [correctionId: string]: Decision };
+}
+
+/**
+ * Parse command-line arguments, returning an error message for bad input
+ */
+export function parseArguments(args: string[]): ApplyOptions | string {
+  const positional: string[] = [];
+  const options: ApplyOptions = {
+    docxPath: "",
+    jsonPath: "",
+    decisionsPath: "",
+    outputPath: "",
+    author: DEFAULT_AUTHOR,
+    date: null,
+    granularity: null,
+    verbose: false,
+  };
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+    const value = () => {
+      index++;
+      if (index >= args.length) throw new Error(`${arg} needs a value`);
+      return args[index];
+    };
+    try {
+      if (arg === "--output") {
+        options.outputPath = value();
+      } else if (arg === "--author") {
+        options.author = value();
+      } else if (arg === "--date") {
+        const date = new Date(value());
+        if (isNaN(date.getTime())) return `Invalid date "${args[index]}"`;
+        options.date = date;
+      } else if (arg === "--granularity") {
+        const granularity = value() as DiffGranularity;
+        if (GRANULARITIES.indexOf(granularity) === -1)
+          return `Unknown granularity "${granularity}" - use ${GRANULARITIES.join(", ")}`;
+        options.granularity = granularity;
+      } else if (arg === "--verbose") {
+        options.verbose = true;
+      } else if (arg.indexOf("--") === 0) {
+        return `Unknown option ${arg}`;
+      } else {
+        positional.push(arg);
+      }
+    } catch (error) {
+      return error.message;
+    }
+  }
+
+  if (positional.length !== 3) {
+    return "Expected a .docx file, a pipeline JSON file and a decisions file";
+  }
+  if (!options.outputPath) {
+    return "Missing --output";
+  }
+  options.docxPath = positional[0];
+  options.jsonPath = positional[1];
+  options.decisionsPath = positional[2];
+  return options;
+}
+
+/**
+ * Read decisions from an audit report ({ entries }), a session-like object ({ corrections }) or a bare list
+ */
+export function parseDecisions(data: any): DecisionSet {
+  const list = Array.isArray(data) ? data : data && (data.entries || data.corrections);
+  if (!Array.isArray(list)) {
+    throw new Error("expected an audit report or a list of decisions");
+  }
+
+  const granularity = !Array.isArray(data) && data.granularity ? data.granularity : null;
+  if (granularity !== null && GRANULARITIES.indexOf(granularity) === -1) {
+    throw new Error(`unknown granularity "${granularity}"`);
+  }
+
+  const decisions: { [correctionId: string]: Decision } = {};
+  list.forEach((item: any, index: number) => {
+    const id = item && (item.correctionId || item.id);
+    if (typeof id !== "string" || STATUSES.indexOf(item.status) === -1) {
+      throw new Error(
+        `decision ${index + 1} needs a correction ID and one of the statuses ${STATUSES.join(", ")}`
+      );
+    }
+
+    // Audit entries flatten the origin span; session corrections keep it as an object
+    const origin = item.origin || {
+      startOffset: item.originStartOffset,
+      endOffset: item.originEndOffset,
+    };
+    const decision: Decision = { status: item.status };
+    if (typeof item.diffText === "string") decision.diffText = item.diffText;
+    if (typeof origin.startOffset === "number" && typeof origin.endOffset === "number") {
+      decision.startOffset = origin.startOffset;
+      decision.endOffset = origin.endOffset;
+    }
+    decisions[id] = decision;
+  });
+  return { granularity, decisions };
+}
+
+/**
+ * Why a decision no longer fits the regenerated correction with its ID, or null when it does
+ */
+function decisionMismatch(decision: Decision, correction: CorrectionObject): string | null {
+  const origin = correction.origin || {
+    startOffset: correction.startOffset,
+    endOffset: correction.endOffset,
+  };
+  const textChanged = decision.diffText !== undefined && decision.diffText !== correction.diffText;
+  const spanMoved =
+    decision.startOffset !== undefined &&
+    (decision.startOffset !== origin.startOffset || decision.endOffset !== origin.endOffset);
+  if (!textChanged && !spanMoved) return null;
+
+  const recorded = [
+    decision.diffText !== undefined ? `"${decision.diffText}"` : null,
+    decision.startOffset !== undefined ? `@${decision.startOffset}-${decision.endOffset}` : null,
+  ]
+    .filter((part) => part !== null)
+    .join(" ");
+  return `decided for ${recorded}, the pipeline JSON now produces "${correction.diffText}" @${origin.startOffset}-${origin.endOffset}`;
+}
+
+/**
+ * Apply the decisions to the regenerated corrections and write the revised chapter, returning the exit code
+ */
+export async function runApply(options: ApplyOptions): Promise<number> {
+  let documentData: DocumentData;
+  let decisionSet: DecisionSet;
+  let docx: Buffer;
+  try {
+    const parsed = documentSchema.safeParse(JSON.parse(fs.readFileSync(options.jsonPath, "utf8")));
+    if (!parsed.success) {
+      process.stderr.write(
+        `${options.jsonPath} is not a pipeline document: ${parsed.error.message}\n`
+      );
+      return EXIT_USAGE;
+    }
+    documentData = parsed.data;
+    decisionSet = parseDecisions(JSON.parse(fs.readFileSync(options.decisionsPath, "utf8")));
+    docx = fs.readFileSync(options.docxPath);
+  } catch (error) {
+    process.stderr.write(`Could not read input: ${error.message}\n`);
+    return EXIT_USAGE;
+  }
+
+  if (
+    options.granularity &&
+    decisionSet.granularity &&
+    options.granularity !== decisionSet.granularity
+  ) {
+    process.stderr.write(
+      `The decisions were made at ${decisionSet.granularity} granularity, not ${options.granularity}\n`
+    );
+    return EXIT_USAGE;
+  }
+  const granularity = options.granularity || decisionSet.granularity || DEFAULT_GRANULARITY;
+
+  let paragraphs;
+  try {
+    paragraphs = readDocxParagraphs(docx);
+  } catch (error) {
+    process.stderr.write(`Could not read ${options.docxPath}: ${error.message}\n`);
+    return EXIT_USAGE;
+  }
+
+  const { decisions } = decisionSet;
+  const { corrections } = await generateCorrections(documentData, paragraphs, { granularity });
+  const known = new Set(corrections.map((correction) => correction.id));
+  const unknown = Object.keys(decisions).filter((id) => !known.has(id));
+  const mismatched: { correctionId: string; reason: string }[] = [];
+  corrections.forEach((correction) => {
+    const decision = decisions[correction.id];
+    const mismatch = decision ? decisionMismatch(decision, correction) : null;
+    if (mismatch) {
+      mismatched.push({ correctionId: correction.id, reason: mismatch });
+    }
+    correction.status = decision && !mismatch ? decision.status : "pending";
+  });
+
+  const result = applyCorrectionsToDocx(docx, corrections, {
+    author: options.author,
+    date: options.date || undefined,
+  });
+  fs.writeFileSync(options.outputPath, result.docx);
+  process.stderr.write(
+    `Wrote ${result.applied.length} tracked corrections to ${options.outputPath}\n`
+  );
+
+  result.skipped.forEach(({ correctionId, reason }) =>
+    process.stderr.write(`Skipped ${correctionId}: ${reason}\n`)
+  );
+  mismatched.forEach(({ correctionId, reason }) =>
+    process.stderr.write(`Skipped ${correctionId}: ${reason}\n`)
+  );
+  if (unknown.length > 0) {
+    process.stderr.write(
+      `${unknown.length} decisions name corrections the pipeline JSON no longer produces: ${unknown.join(", ")}\n`
+    );
+  }
+  return result.skipped.length > 0 || mismatched.length > 0 || unknown.length > 0
+    ? EXIT_INCOMPLETE
+    : EXIT_OK;
+}
+
+/**
+ * Entry point: the engine's diagnostics go to the console, so keep them quiet unless asked for
+ */
+export async function main(args: string[]): Promise<number> {
+  const options = parseArguments(args);
+  if (typeof options === "string") {
+    process.stderr.write(`${options}\n${USAGE}\n`);
+    return EXIT_USAGE;
+  }
+
+  const log = console.log;
+  const warn = console.warn;
+  if (!options.verbose) {
+    console.log = () => undefined;
+    console.warn = () => undefined;
+  }
+  try {
+    return await runApply(options);
+  } finally {
+    console.log = log;
+    console.warn = warn;
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(
+    (code) => process.exit(code),
+    (error) => {
+      process.stderr.write(`${error.stack || error}\n`);
+      process.exit(EXIT_USAGE);
+    }
+  );
+}
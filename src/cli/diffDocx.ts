@@ -0,0 +1,307 @@
+/**
+ * Command-line batch diff of a .docx chapter against its pipeline JSON
+ * Runs the same correction engine as the task pane and reports corrections, mapping diagnostics and totals.
+ *
+ * Usage: diff-docx <chapter.docx> <pipeline.json> [--format json|csv|text] [--granularity character|word|sentence]
+ *                  [--output <file>] [--verbose]
+ *
+ * Exit codes: 0 all JSON paragraphs mapped, 1 bad arguments or unreadable input, 2 paragraphs failed to map
+ */
+
+import * as fs from "fs";
+import { documentSchema } from "../taskpane/utils/jsonSchema";
+import {
+  generateCorrections,
+  CorrectionProcessingResult,
+  DocumentData,
+} from "../taskpane/utils/documentMapping";
+import { DiffGranularity, DEFAULT_GRANULARITY } from "../taskpane/utils/textDiff";
+import { buildAuditReport, auditReportToCsv } from "../taskpane/utils/auditReport";
+import { readDocxParagraphs } from "./docxReader";
+
+export type OutputFormat = "json" | "csv" | "text";
+
+const OUTPUT_FORMATS: OutputFormat[] = ["json", "csv", "text"];
+const GRANULARITIES: DiffGranularity[] = ["character", "word", "sentence"];
+
+export const EXIT_OK = 0;
+export const EXIT_USAGE = 1;
+export const EXIT_MAPPING_FAILED = 2;
+
+const USAGE = `Usage: diff-docx <chapter.docx> <pipeline.json> [--format json|csv|text] [--granularity character|word|sentence] [--output <file>] [--verbose]`;
+
+export interface CliOptions {
+  docxPath: string;
+  jsonPath: string;
+  format: OutputFormat;
+  granularity: DiffGranularity;
+  outputPath: string | null;
+  verbose: boolean;
+}
+
+/**
+ * Totals for triage: how well the chapter mapped and what the pipeline changed
+ */
+export interface DiffSummary {
+  documentTitle: string;
+  jsonParagraphs: number;
+  wordParagraphs: number;
+  mapped: number;
+  unmapped: number; // JSON paragraphs that are missing, split or merged
+  mappingOutcomes: { [outcome: string]: number };
+  corrections: number;
+  byChangeType: { [changeType: string]: number };
+  byErrorType: { [errorType: string]: number };
+  warnings: number;
+}
+
+/**
+ * Parse command-line arguments, returning an error message for bad input
+ */
+export function parseArguments(args: string[]): CliOptions | string {
+  const positional: string[] = [];
+  const options: CliOptions = {
+    docxPath: "",
+    jsonPath: "",
+    format: "text",
+    granularity: DEFAULT_GRANULARITY,
+    outputPath: null,
+    verbose: false,
+  };
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+    const value = () => {
+      index++;
+      if (index >= args.length) throw new Error(`${arg} needs a value`);
+      return args[index];
+    };
+    try {
+      if (arg === "--format") {
+        const format = value() as OutputFormat;
+        if (OUTPUT_FORMATS.indexOf(format) === -1)
+          return `Unknown format "${format}" - use ${OUTPUT_FORMATS.join(", ")}`;
+        options.format = format;
+      } else if (arg === "--granularity") {
+        const granularity = value() as DiffGranularity;
+        if (GRANULARITIES.indexOf(granularity) === -1)
+          return `Unknown granularity "${granularity}" - use ${GRANULARITIES.join(", ")}`;
+        options.granularity = granularity;
+      } else if (arg === "--output") {
+        options.outputPath = value();
+      } else if (arg === "--verbose") {
+        options.verbose = true;
+      } else if (arg.indexOf("--") === 0) {
+        return `Unknown option ${arg}`;
+      } else {
+        positional.push(arg);
+      }
+    } catch (error) {
+      return error.message;
+    }
+  }
+
+  if (positional.length !== 2) {
+    return "Expected a .docx file and a pipeline JSON file";
+  }
+  options.docxPath = positional[0];
+  options.jsonPath = positional[1];
+  return options;
+}
+
+/**
+ * Count corrections and mapping outcomes
+ */
+export function summarize(
+  documentData: DocumentData,
+  wordParagraphs: number,
+  result: CorrectionProcessingResult
+): DiffSummary {
+  const tally = (values: string[]) => {
+    const counts: { [key: string]: number } = {};
+    values.forEach((value) => {
+      counts[value] = (counts[value] || 0) + 1;
+    });
+    return counts;
+  };
+
+  const jsonMappings = result.paragraphMappings.filter(
+    (mapping) => mapping.paragraphNumbers.length > 0
+  );
+  const mapped = jsonMappings
+    .filter((mapping) => mapping.outcome === "matched")
+    .reduce((total, mapping) => total + mapping.paragraphNumbers.length, 0);
+
+  return {
+    documentTitle: documentData.document_title,
+    jsonParagraphs: documentData.paragraphs.length,
+    wordParagraphs,
+    mapped,
+    unmapped: documentData.paragraphs.length - mapped,
+    mappingOutcomes: tally(result.paragraphMappings.map((mapping) => mapping.outcome)),
+    corrections: result.corrections.length,
+    byChangeType: tally(result.corrections.map((correction) => correction.changeType)),
+    byErrorType: tally(result.corrections.map((correction) => correction.errorType)),
+    warnings: result.warnings.length,
+  };
+}
+
+function formatCounts(counts: { [key: string]: number }): string {
+  const keys = Object.keys(counts).sort();
+  return keys.length === 0 ? "none" : keys.map((key) => `${key} ${counts[key]}`).join(", ");
+}
+
+/**
+ * Human-readable report: totals, paragraphs that failed to map, then one line per correction
+ */
+export function formatText(summary: DiffSummary, result: CorrectionProcessingResult): string {
+  const lines = [
+    `Document: ${summary.documentTitle}`,
+    `Paragraphs: ${summary.jsonParagraphs} in JSON, ${summary.wordParagraphs} in Word, ${summary.mapped} mapped, ${summary.unmapped} unmapped`,
+    `Mapping outcomes: ${formatCounts(summary.mappingOutcomes)}`,
+    `Corrections: ${summary.corrections} (${formatCounts(summary.byChangeType)})`,
+    `Error types: ${formatCounts(summary.byErrorType)}`,
+  ];
+
+  const failures = result.paragraphMappings.filter(
+    (mapping) => mapping.outcome !== "matched" && mapping.paragraphNumbers.length > 0
+  );
+  if (failures.length > 0) {
+    lines.push("", "Unmapped paragraphs:");
+    failures.forEach((mapping) => {
+      lines.push(
+        `  ${mapping.outcome}: JSON [${mapping.paragraphNumbers.join(", ")}] (${mapping.wordNativeParaIds.join(", ")}) - Word [${mapping.wordParagraphIndexes.join(", ")}]`
+      );
+    });
+  }
+
+  if (result.warnings.length > 0) {
+    lines.push("", "Warnings:");
+    result.warnings.forEach((warning) => lines.push(`  ${warning}`));
+  }
+
+  if (result.corrections.length > 0) {
+    lines.push("", "Corrections:");
+    result.corrections.forEach((correction) => {
+      lines.push(
+        `  [${correction.paragraphNumber}] ${correction.errorType} ${correction.changeType} @${correction.startOffset}-${correction.endOffset}: ${correction.suggestion}`
+      );
+    });
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Render the result in the requested format
+ */
+export function formatResult(
+  format: OutputFormat,
+  summary: DiffSummary,
+  result: CorrectionProcessingResult
+): string {
+  switch (format) {
+    case "json":
+      return (
+        JSON.stringify(
+          {
+            summary,
+            paragraphMappings: result.paragraphMappings,
+            warnings: result.warnings,
+            corrections: result.corrections,
+          },
+          null,
+          2
+        ) + "\n"
+      );
+    case "csv":
+      return auditReportToCsv(buildAuditReport(result.corrections));
+    default:
+      return formatText(summary, result);
+  }
+}
+
+/**
+ * Run the diff for parsed options and return the exit code
+ */
+export async function runDiff(options: CliOptions): Promise<number> {
+  let documentData: DocumentData;
+  let docx: Buffer;
+  try {
+    const parsed = documentSchema.safeParse(JSON.parse(fs.readFileSync(options.jsonPath, "utf8")));
+    if (!parsed.success) {
+      process.stderr.write(
+        `${options.jsonPath} is not a pipeline document: ${parsed.error.message}\n`
+      );
+      return EXIT_USAGE;
+    }
+    documentData = parsed.data;
+    docx = fs.readFileSync(options.docxPath);
+  } catch (error) {
+    process.stderr.write(`Could not read input: ${error.message}\n`);
+    return EXIT_USAGE;
+  }
+
+  let paragraphs;
+  try {
+    paragraphs = readDocxParagraphs(docx);
+  } catch (error) {
+    process.stderr.write(`Could not read ${options.docxPath}: ${error.message}\n`);
+    return EXIT_USAGE;
+  }
+
+  const result = await generateCorrections(documentData, paragraphs, {
+    granularity: options.granularity,
+  });
+  const summary = summarize(documentData, paragraphs.length, result);
+  const output = formatResult(options.format, summary, result);
+
+  if (options.outputPath) {
+    fs.writeFileSync(options.outputPath, output, "utf8");
+    process.stderr.write(`Wrote ${summary.corrections} corrections to ${options.outputPath}\n`);
+  } else {
+    process.stdout.write(output);
+  }
+
+  if (summary.unmapped > 0) {
+    process.stderr.write(
+      `${summary.unmapped} of ${summary.jsonParagraphs} JSON paragraphs could not be mapped\n`
+    );
+    return EXIT_MAPPING_FAILED;
+  }
+  return EXIT_OK;
+}
+
+/**
+ * Entry point: the engine's diagnostics go to the console, so keep them out of the report unless asked for
+ */
+export async function main(args: string[]): Promise<number> {
+  const options = parseArguments(args);
+  if (typeof options === "string") {
+    process.stderr.write(`${options}\n${USAGE}\n`);
+    return EXIT_USAGE;
+  }
+
+  const log = console.log;
+  const warn = console.warn;
+  if (!options.verbose) {
+    console.log = () => undefined;
+    console.warn = () => undefined;
+  }
+  try {
+    return await runDiff(options);
+  } finally {
+    console.log = log;
+    console.warn = warn;
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(
+    (code) => process.exit(code),
+    (error) => {
+      process.stderr.write(`${error.stack || error}\n`);
+      process.exit(EXIT_USAGE);
+    }
+  );
+}
@@ -0,0 +1,204 @@
+/**
+ * Read the body paragraphs of a .docx package without Word
+ * Produces the same DocumentParagraph shape the task pane reads through Office.js
+ */
+
+import { DocumentParagraph } from "../taskpane/utils/documentMapping";
+import { InlineStyle, INLINE_STYLES } from "../taskpane/utils/markerParser";
+import { readZipEntries } from "./zipArchive";
+
+export const DOCUMENT_PART = "word/document.xml";
+export const STYLES_PART = "word/styles.xml";
+
+/**
+ * Matches a paragraph, self-closing or with content.
+ * Paragraphs nested in text boxes are not separated from the paragraph that anchors them.
+ */
+const PARAGRAPH_PATTERN = /<w:p(\s[^>]*)?(?:\/>|>([\s\S]*?)<\/w:p>)/g;
+
+/**
+ * Runs of visible text inside a paragraph, in document order.
+ * Deleted text (w:delText) and field instructions (w:instrText) don't match.
+ */
+const TEXT_PATTERN =
+  /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:t\s*\/>|<w:(tab|br|cr|noBreakHyphen)(?:\s[^>]*)?\/>/g;
+
+const RUN_PATTERN = /<w:r(?:\s[^>]*)?>([\s\S]*?)<\/w:r>/g;
+
+/**
+ * Run property element of each inline style
+ */
+const STYLE_PROPERTIES: { [style in InlineStyle]: string } = {
+  bold: "w:b",
+  italic: "w:i",
+  underline: "w:u",
+  strikeThrough: "w:strike",
+  superscript: "w:vertAlign",
+  subscript: "w:vertAlign",
+};
+
+/**
+ * Decode the XML entities that can appear in text and attribute values
+ */
+export function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9A-Fa-f]+|#\d+|lt|gt|amp|quot|apos);/g, (_match, entity: string) => {
+    switch (entity) {
+      case "lt":
+        return "<";
+      case "gt":
+        return ">";
+      case "amp":
+        return "&";
+      case "quot":
+        return '"';
+      case "apos":
+        return "'";
+      default:
+        return String.fromCharCode(
+          entity.charAt(1) === "x"
+            ? parseInt(entity.substring(2), 16)
+            : parseInt(entity.substring(1), 10)
+        );
+    }
+  });
+}
+
+/**
+ * Decoded value of an attribute in a start tag's attribute text, or null if absent
+ */
+export function attributeValue(attributes: string, name: string): string | null {
+  const match = attributes.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? decodeXmlEntities(match[1]) : null;
+}
+
+/**
+ * Map style IDs to display names from styles.xml, e.g. "Heading2" → "heading 2"
+ */
+export function readStyleNames(stylesXml: string | null): { [styleId: string]: string } {
+  const names: { [styleId: string]: string } = {};
+  if (!stylesXml) return names;
+
+  const stylePattern = /<w:style(\s[^>]*)>([\s\S]*?)<\/w:style>/g;
+  let match: RegExpExecArray | null;
+  while ((match = stylePattern.exec(stylesXml)) !== null) {
+    const styleId = attributeValue(match[1], "w:styleId");
+    const nameMatch = match[2].match(/<w:name(\s[^>]*)\/>/);
+    const name = nameMatch ? attributeValue(nameMatch[1], "w:val") : null;
+    if (styleId && name) {
+      names[styleId] = name;
+    }
+  }
+  return names;
+}
+
+/**
+ * Plain text of a paragraph's content, as Word reports it
+ */
+export function paragraphText(paragraphXml: string): string {
+  let text = "";
+  let match: RegExpExecArray | null;
+  TEXT_PATTERN.lastIndex = 0;
+  while ((match = TEXT_PATTERN.exec(paragraphXml)) !== null) {
+    if (match[1] !== undefined) {
+      text += decodeXmlEntities(match[1]);
+    } else if (match[2] === "tab") {
+      text += "\t";
+    } else if (match[2] === "br" || match[2] === "cr") {
+      text += "\n";
+    } else if (match[2] === "noBreakHyphen") {
+      text += "\u2011";
+    }
+  }
+  return text;
+}
+
+/**
+ * Inline styles set directly on a run's properties. An off value ("0", "false", "none",
+ * "baseline") counts as unset.
+ */
+function runPropertyStyles(rPr: string): InlineStyle[] {
+  return INLINE_STYLES.filter((style) => {
+    const match = rPr.match(new RegExp(`<${STYLE_PROPERTIES[style]}(\\s[^>]*)?\\/>`));
+    if (!match) return false;
+    const value = match[1] ? attributeValue(match[1], "w:val") : null;
+    if (STYLE_PROPERTIES[style] === "w:vertAlign") return value === style;
+    return value === null || ["0", "false", "none"].indexOf(value) === -1;
+  });
+}
+
+/**
+ * Inline styles set directly on each character of a paragraph's text, as counted by paragraphText.
+ * The properties a tracked formatting change (w:rPrChange) replaced are ignored.
+ */
+export function paragraphInlineStyles(paragraphXml: string): InlineStyle[][] {
+  const styles: InlineStyle[][] = [];
+  let match: RegExpExecArray | null;
+  RUN_PATTERN.lastIndex = 0;
+  while ((match = RUN_PATTERN.exec(paragraphXml)) !== null) {
+    const run = match[1].replace(/<w:rPrChange[\s\S]*?<\/w:rPrChange>/g, "");
+    const rPrMatch = run.match(/<w:rPr>([\s\S]*?)<\/w:rPr>/);
+    const runStyles = rPrMatch ? runPropertyStyles(rPrMatch[1]) : [];
+    const length = paragraphText(run).length;
+    for (let i = 0; i < length; i++) {
+      styles.push(runStyles);
+    }
+  }
+  return styles;
+}
+
+/**
+ * A paragraph element of document.xml and where it sits in the XML
+ */
+export interface DocxParagraphElement {
+  start: number; // Index of "<w:p" in the document XML
+  end: number; // Index just past the closing tag
+  attributes: string; // Attributes of the w:p start tag, with leading whitespace
+  content: string; // Everything between the start and end tags (empty for <w:p/>)
+}
+
+/**
+ * Find the paragraph elements of document.xml in document order
+ */
+export function findParagraphElements(xml: string): DocxParagraphElement[] {
+  const elements: DocxParagraphElement[] = [];
+  let match: RegExpExecArray | null;
+  PARAGRAPH_PATTERN.lastIndex = 0;
+  while ((match = PARAGRAPH_PATTERN.exec(xml)) !== null) {
+    elements.push({
+      start: match.index,
+      end: match.index + match[0].length,
+      attributes: match[1] || "",
+      content: match[2] || "",
+    });
+  }
+  return elements;
+}
+
+/**
+ * Read the paragraphs of word/document.xml with their native IDs and styles.
+ * The style ID doubles as the built-in style name, which holds for Word's built-in styles.
+ */
+export function readDocxParagraphs(docx: Buffer): DocumentParagraph[] {
+  const entries = readZipEntries(docx);
+  const documentXml = entries[DOCUMENT_PART];
+  if (!documentXml) {
+    throw new Error(`Not a Word document: ${DOCUMENT_PART} is missing`);
+  }
+  const styleNames = readStyleNames(
+    entries[STYLES_PART] ? entries[STYLES_PART].toString("utf8") : null
+  );
+
+  return findParagraphElements(documentXml.toString("utf8")).map(({ attributes, content }) => {
+    const paraId = attributeValue(attributes, "w14:paraId");
+    const styleMatch = content.match(/<w:pStyle(\s[^>]*)\/>/);
+    const styleId = (styleMatch && attributeValue(styleMatch[1], "w:val")) || "Normal";
+
+    return {
+      text: paragraphText(content),
+      paraId: paraId ? paraId.toUpperCase() : null,
+      style: styleNames[styleId] || styleId,
+      styleBuiltIn: styleId,
+      inlineStyles: paragraphInlineStyles(content),
+    };
+  });
+}
@@ -0,0 +1,550 @@
+/**
+ * Offline application of accepted corrections to a .docx as tracked changes
+ * Edits word/document.xml directly: text changes become w:del/w:ins revisions, formatting changes
+ * w:rPrChange and paragraph style changes w:pPrChange, each with author and date.
+ * Offsets come from each correction's origin, so decisions from a rebased review session apply as well.
+ */
+
+import { CorrectionObject } from "../taskpane/utils/documentMapping";
+import { InlineStyle } from "../taskpane/utils/markerParser";
+import { readZipEntries, writeZipEntries } from "./zipArchive";
+import {
+  DOCUMENT_PART,
+  STYLES_PART,
+  DocxParagraphElement,
+  findParagraphElements,
+  paragraphText,
+  readStyleNames,
+  decodeXmlEntities,
+} from "./docxReader";
+
+export interface RevisionOptions {
+  author: string;
+  date?: Date; // Defaults to now
+}
+
+export interface RevisionResult {
+  docx: Buffer;
+  applied: string[]; // IDs of corrections written as revisions
+  skipped: { correctionId: string; reason: string }[];
+}
+
+/**
+ * Author, date and the next free annotation ID of the revisions being written
+ */
+interface RevisionContext {
+  author: string;
+  date: string;
+  nextId: number;
+}
+
+/**
+ * Text edits of one paragraph in absolute offsets of its untrimmed text
+ */
+interface ParagraphEdits {
+  deletions: { start: number; end: number }[];
+  insertions: { at: number; text: string }[];
+  formatting: { start: number; end: number; style: InlineStyle; value: boolean }[];
+  styleId: string | null;
+}
+
+/**
+ * A run, or the part of one between two edit boundaries
+ */
+interface RunPiece {
+  start: number;
+  end: number;
+  runAttributes: string;
+  rPr: string;
+  children: string;
+}
+
+const RUN_PATTERN = /<w:r(\s[^>]*)?>([\s\S]*?)<\/w:r>/g;
+
+/**
+ * Children of a run or a property element: w:t with text, empty elements, or elements with content
+ */
+const CHILD_PATTERN =
+  /<w:t(\s[^>]*)?>([^<]*)<\/w:t>|<([A-Za-z0-9]+:[A-Za-z]+)(?:\s[^>]*)?\/>|<([A-Za-z0-9]+:[A-Za-z]+)(?:\s[^>]*)?>[\s\S]*?<\/\4>/g;
+
+/**
+ * Empty elements that stand for one character of paragraph text, as counted by paragraphText
+ */
+const CHARACTER_ELEMENTS = ["w:tab", "w:br", "w:cr", "w:noBreakHyphen"];
+
+/**
+ * Schema order of run properties; a property must be inserted before any that follow it here
+ */
+const RPR_ORDER = [
+  "w:rStyle",
+  "w:rFonts",
+  "w:b",
+  "w:bCs",
+  "w:i",
+  "w:iCs",
+  "w:caps",
+  "w:smallCaps",
+  "w:strike",
+  "w:dstrike",
+  "w:outline",
+  "w:shadow",
+  "w:emboss",
+  "w:imprint",
+  "w:noProof",
+  "w:snapToGrid",
+  "w:vanish",
+  "w:webHidden",
+  "w:color",
+  "w:spacing",
+  "w:w",
+  "w:kern",
+  "w:position",
+  "w:sz",
+  "w:szCs",
+  "w:highlight",
+  "w:u",
+  "w:effect",
+  "w:bdr",
+  "w:shd",
+  "w:fitText",
+  "w:vertAlign",
+  "w:rtl",
+  "w:cs",
+  "w:em",
+  "w:lang",
+  "w:eastAsianLayout",
+  "w:specVanish",
+  "w:oMath",
+  "w:rPrChange",
+];
+
+/**
+ * Run property element for an inline style turned on or off
+ */
+function styleProperty(style: InlineStyle, value: boolean): { name: string; xml: string } {
+  switch (style) {
+    case "bold":
+      return { name: "w:b", xml: value ? "<w:b/>" : '<w:b w:val="0"/>' };
+    case "italic":
+      return { name: "w:i", xml: value ? "<w:i/>" : '<w:i w:val="0"/>' };
+    case "strikeThrough":
+      return { name: "w:strike", xml: value ? "<w:strike/>" : '<w:strike w:val="0"/>' };
+    case "underline":
+      return { name: "w:u", xml: `<w:u w:val="${value ? "single" : "none"}"/>` };
+    case "superscript":
+    case "subscript":
+      return { name: "w:vertAlign", xml: `<w:vertAlign w:val="${value ? style : "baseline"}"/>` };
+  }
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function textElement(text: string): string {
+  return `<w:t xml:space="preserve">${escapeXml(text)}</w:t>`;
+}
+
+function revisionAttributes(context: RevisionContext): string {
+  return ` w:id="${context.nextId++}" w:author="${escapeXml(context.author)}" w:date="${context.date}"`;
+}
+
+/**
+ * Split the inner XML of a property element or run into its child elements
+ */
+function childElements(xml: string): { name: string; xml: string }[] {
+  const children: { name: string; xml: string }[] = [];
+  let match: RegExpExecArray | null;
+  const pattern = new RegExp(CHILD_PATTERN.source, "g");
+  while ((match = pattern.exec(xml)) !== null) {
+    children.push({ name: match[2] !== undefined ? "w:t" : match[3] || match[4], xml: match[0] });
+  }
+  return children;
+}
+
+/**
+ * Set inline styles on a run's properties, recording the previous properties in a w:rPrChange
+ */
+function changeRunProperties(
+  rPr: string,
+  changes: { style: InlineStyle; value: boolean }[],
+  context: RevisionContext
+): string {
+  const inner = rPr.replace(/^<w:rPr>|<\/w:rPr>$|^<w:rPr\/>$/g, "");
+  const children = childElements(inner);
+  const previous = children
+    .filter((child) => child.name !== "w:rPrChange")
+    .map((child) => child.xml)
+    .join("");
+  const hasChange = children.some((child) => child.name === "w:rPrChange");
+
+  changes.forEach(({ style, value }) => {
+    const property = styleProperty(style, value);
+    const existing = children.findIndex((child) => child.name === property.name);
+    if (existing !== -1) {
+      children[existing] = property;
+      return;
+    }
+    const order = RPR_ORDER.indexOf(property.name);
+    const before = children.findIndex((child) => RPR_ORDER.indexOf(child.name) > order);
+    children.splice(before === -1 ? children.length : before, 0, property);
+  });
+
+  // An earlier tracked formatting change already holds the original properties
+  if (!hasChange) {
+    children.push({
+      name: "w:rPrChange",
+      xml: `<w:rPrChange${revisionAttributes(context)}><w:rPr>${previous}</w:rPr></w:rPrChange>`,
+    });
+  }
+  return `<w:rPr>${children.map((child) => child.xml).join("")}</w:rPr>`;
+}
+
+/**
+ * Split a run into pieces at the given absolute offsets
+ */
+function splitRun(
+  runAttributes: string,
+  inner: string,
+  runStart: number,
+  boundaries: number[]
+): RunPiece[] {
+  const rPrMatch = inner.match(/^\s*(<w:rPr>[\s\S]*?<\/w:rPr>|<w:rPr\/>)/);
+  const rPr = rPrMatch ? rPrMatch[1] : "";
+  const children = childElements(rPrMatch ? inner.substring(rPrMatch[0].length) : inner);
+
+  const pieces: RunPiece[] = [];
+  let current: RunPiece = { start: runStart, end: runStart, runAttributes, rPr, children: "" };
+  const cutAt = (offset: number) => {
+    pieces.push(current);
+    current = { start: offset, end: offset, runAttributes, rPr, children: "" };
+  };
+
+  children.forEach((child) => {
+    if (child.name === "w:t" && !/\/>$/.test(child.xml)) {
+      const text = decodeXmlEntities(child.xml.replace(/^<w:t(\s[^>]*)?>|<\/w:t>$/g, ""));
+      let consumed = 0;
+      boundaries
+        .filter((boundary) => boundary > current.end && boundary < current.end + text.length)
+        .sort((a, b) => a - b)
+        .forEach((boundary) => {
+          const length = boundary - current.end;
+          current.children += textElement(text.substring(consumed, consumed + length));
+          current.end = boundary;
+          consumed += length;
+          cutAt(boundary);
+        });
+      if (consumed > 0) {
+        current.children += textElement(text.substring(consumed));
+      } else {
+        current.children += child.xml;
+      }
+      current.end += text.length - consumed;
+    } else {
+      current.children += child.xml;
+      if (CHARACTER_ELEMENTS.indexOf(child.name) !== -1) {
+        current.end++;
+      }
+    }
+    if (boundaries.indexOf(current.end) !== -1 && current.end > current.start) {
+      cutAt(current.end);
+    }
+  });
+  if (current.children || pieces.length === 0) {
+    pieces.push(current);
+  }
+  return pieces;
+}
+
+function runXml(piece: RunPiece, rPr: string = piece.rPr): string {
+  return `<w:r${piece.runAttributes}>${rPr}${piece.children}</w:r>`;
+}
+
+function deletedRunXml(piece: RunPiece, context: RevisionContext): string {
+  const children = piece.children
+    .replace(/<w:t(\s[^>]*)?>/g, "<w:delText$1>")
+    .replace(/<\/w:t>/g, "</w:delText>")
+    .replace(/<w:instrText(\s[^>]*)?>/g, "<w:delInstrText$1>")
+    .replace(/<\/w:instrText>/g, "</w:delInstrText>");
+  return `<w:del${revisionAttributes(context)}>${runXml({ ...piece, children })}</w:del>`;
+}
+
+function insertedRunXml(text: string, rPr: string, context: RevisionContext): string {
+  // Copied formatting must not carry another revision's ID
+  const cleanRPr = rPr.replace(/<w:rPrChange[\s\S]*?<\/w:rPrChange>/, "");
+  return `<w:ins${revisionAttributes(context)}><w:r>${cleanRPr}${textElement(text)}</w:r></w:ins>`;
+}
+
+/**
+ * Set the paragraph style, recording the previous paragraph properties in a w:pPrChange
+ */
+function changeParagraphStyle(content: string, styleId: string, context: RevisionContext): string {
+  const pPrMatch = content.match(/^(\s*)(<w:pPr>([\s\S]*?)<\/w:pPr>|<w:pPr\/>)/);
+  const children = pPrMatch ? childElements(pPrMatch[3] || "") : [];
+  const previous = children
+    .filter((child) => ["w:rPr", "w:sectPr", "w:pPrChange"].indexOf(child.name) === -1)
+    .map((child) => child.xml)
+    .join("");
+
+  const updated = children.filter(
+    (child) => child.name !== "w:pStyle" && child.name !== "w:pPrChange"
+  );
+  updated.unshift({ name: "w:pStyle", xml: `<w:pStyle w:val="${escapeXml(styleId)}"/>` });
+  updated.push({
+    name: "w:pPrChange",
+    xml: `<w:pPrChange${revisionAttributes(context)}><w:pPr>${previous}</w:pPr></w:pPrChange>`,
+  });
+
+  const pPr = `<w:pPr>${updated.map((child) => child.xml).join("")}</w:pPr>`;
+  return pPrMatch ? pPrMatch[1] + pPr + content.substring(pPrMatch[0].length) : pPr + content;
+}
+
+/**
+ * Rewrite the runs of a paragraph with its edits as revisions
+ */
+function rewriteParagraph(
+  content: string,
+  edits: ParagraphEdits,
+  context: RevisionContext
+): string {
+  const boundaries: number[] = [];
+  const addBoundary = (offset: number) => {
+    if (boundaries.indexOf(offset) === -1) boundaries.push(offset);
+  };
+  edits.deletions.forEach((span) => {
+    addBoundary(span.start);
+    addBoundary(span.end);
+  });
+  edits.formatting.forEach((span) => {
+    addBoundary(span.start);
+    addBoundary(span.end);
+  });
+  edits.insertions.forEach((insertion) => addBoundary(insertion.at));
+
+  // Split every run at the boundaries so each edit covers whole pieces
+  const runs: { start: number; end: number; pieces: RunPiece[] }[] = [];
+  let offset = 0;
+  let match: RegExpExecArray | null;
+  const runPattern = new RegExp(RUN_PATTERN.source, "g");
+  while ((match = runPattern.exec(content)) !== null) {
+    const pieces = splitRun(match[1] || "", match[2], offset, boundaries);
+    offset = pieces[pieces.length - 1].end;
+    runs.push({ start: match.index, end: match.index + match[0].length, pieces });
+  }
+  const allPieces = runs.reduce((all, run) => all.concat(run.pieces), [] as RunPiece[]);
+
+  // Inserted text takes the formatting of the character before it, or else the one after
+  const insertionRPr = (at: number) => {
+    const preceding = allPieces.filter((piece) => piece.end === at && piece.end > piece.start);
+    const following = allPieces.filter((piece) => piece.start === at && piece.end > piece.start);
+    return preceding.length > 0
+      ? preceding[preceding.length - 1].rPr
+      : following.length > 0
+        ? following[0].rPr
+        : "";
+  };
+  const pendingInsertions = edits.insertions.slice().sort((a, b) => a.at - b.at);
+  const takeInsertions = (upTo: number) => {
+    let xml = "";
+    while (pendingInsertions.length > 0 && pendingInsertions[0].at <= upTo) {
+      const insertion = pendingInsertions.shift()!;
+      xml += insertedRunXml(insertion.text, insertionRPr(insertion.at), context);
+    }
+    return xml;
+  };
+
+  let result = "";
+  let position = 0;
+  runs.forEach((run) => {
+    result += content.substring(position, run.start);
+    run.pieces.forEach((piece) => {
+      if (piece.end > piece.start) {
+        result += takeInsertions(piece.start);
+      }
+      const deleted =
+        piece.end > piece.start &&
+        edits.deletions.some((span) => piece.start >= span.start && piece.end <= span.end);
+      const styleChanges = edits.formatting.filter(
+        (span) => piece.end > piece.start && piece.start >= span.start && piece.end <= span.end
+      );
+      if (deleted) {
+        result += deletedRunXml(piece, context);
+      } else if (styleChanges.length > 0) {
+        result += runXml(piece, changeRunProperties(piece.rPr, styleChanges, context));
+      } else {
+        result += runXml(piece);
+      }
+    });
+    position = run.end;
+  });
+
+  // Insertions at the end of the paragraph follow its last run
+  const lastRunEnd = runs.length > 0 ? runs[runs.length - 1].end : content.length;
+  if (runs.length === 0) {
+    result = content.substring(0, lastRunEnd) + takeInsertions(Infinity);
+  } else {
+    result += takeInsertions(Infinity) + content.substring(position);
+  }
+
+  return edits.styleId ? changeParagraphStyle(result, edits.styleId, context) : result;
+}
+
+/**
+ * Style ID for a style correction: custom styles by name through styles.xml, built-in styles by their ID
+ */
+function styleIdFor(
+  correction: CorrectionObject,
+  styleIdsByName: { [name: string]: string }
+): string | null {
+  const paragraphStyle = correction.paragraphStyle;
+  if (!paragraphStyle) return null;
+  if (paragraphStyle.styleName) {
+    return (
+      styleIdsByName[paragraphStyle.styleName.toLowerCase()] ||
+      paragraphStyle.styleName.replace(/\s+/g, "")
+    );
+  }
+  return paragraphStyle.builtIn || null;
+}
+
+/**
+ * Write every accepted ('applied') correction into the .docx as a tracked change.
+ * Corrections whose paragraph no longer has the text they were computed against are skipped.
+ */
+export function applyCorrectionsToDocx(
+  docx: Buffer,
+  corrections: CorrectionObject[],
+  options: RevisionOptions
+): RevisionResult {
+  const entries = readZipEntries(docx);
+  if (!entries[DOCUMENT_PART]) {
+    throw new Error(`Not a Word document: ${DOCUMENT_PART} is missing`);
+  }
+  let xml = entries[DOCUMENT_PART].toString("utf8");
+
+  const styleIdsByName: { [name: string]: string } = {};
+  const styleNames = readStyleNames(
+    entries[STYLES_PART] ? entries[STYLES_PART].toString("utf8") : null
+  );
+  Object.keys(styleNames).forEach((styleId) => {
+    styleIdsByName[styleNames[styleId].toLowerCase()] = styleId;
+  });
+
+  // Revision IDs share the annotation ID space with bookmarks and comments
+  let maxId = 0;
+  xml.replace(/\sw:id="(\d+)"/g, (_match, id: string) => {
+    maxId = Math.max(maxId, parseInt(id, 10));
+    return _match;
+  });
+  const context: RevisionContext = {
+    author: options.author,
+    date: (options.date || new Date()).toISOString().replace(/\.\d{3}Z$/, "Z"),
+    nextId: maxId + 1,
+  };
+
+  const paragraphs = findParagraphElements(xml);
+  const applied: string[] = [];
+  const skipped: { correctionId: string; reason: string }[] = [];
+  const editsByParagraph: { [paragraphIndex: number]: ParagraphEdits } = {};
+
+  corrections
+    .filter((correction) => correction.status === "applied")
+    .forEach((correction) => {
+      const paragraphIndex = correction.wordParagraphIndex;
+      const paragraph: DocxParagraphElement | undefined =
+        paragraphIndex === undefined ? undefined : paragraphs[paragraphIndex];
+      if (paragraphIndex === undefined || !paragraph) {
+        skipped.push({
+          correctionId: correction.id,
+          reason: "paragraph not found in the document",
+        });
+        return;
+      }
+
+      const text = paragraphText(paragraph.content);
+      const origin = correction.origin || {
+        text: correction.originalText,
+        startOffset: correction.startOffset,
+        endOffset: correction.endOffset,
+      };
+      if (origin.text !== text.trim()) {
+        skipped.push({
+          correctionId: correction.id,
+          reason: `paragraph ${correction.paragraphNumber} differs from the text the correction was computed against`,
+        });
+        return;
+      }
+
+      const leading = text.length - text.replace(/^\s+/, "").length;
+      const start = leading + origin.startOffset;
+      const end = leading + origin.endOffset;
+      const edits =
+        editsByParagraph[paragraphIndex] ||
+        (editsByParagraph[paragraphIndex] = {
+          deletions: [],
+          insertions: [],
+          formatting: [],
+          styleId: null,
+        });
+
+      switch (correction.changeType) {
+        case "deletion":
+          edits.deletions.push({ start, end });
+          break;
+        case "addition":
+          edits.insertions.push({ at: start, text: correction.diffText });
+          break;
+        case "modification":
+          edits.deletions.push({ start, end });
+          edits.insertions.push({ at: end, text: correction.replacementText || "" });
+          break;
+        case "formatting":
+          if (!correction.formatting) {
+            skipped.push({
+              correctionId: correction.id,
+              reason: "formatting correction without a formatting change",
+            });
+            return;
+          }
+          edits.formatting.push({
+            start,
+            end,
+            style: correction.formatting.style,
+            value: correction.formatting.value,
+          });
+          break;
+        case "style":
+          edits.styleId = styleIdFor(correction, styleIdsByName);
+          if (!edits.styleId) {
+            skipped.push({
+              correctionId: correction.id,
+              reason: "style correction without a target style",
+            });
+            return;
+          }
+          break;
+      }
+      applied.push(correction.id);
+    });
+
+  // Replace paragraphs from the end so earlier positions stay valid
+  Object.keys(editsByParagraph)
+    .map(Number)
+    .sort((a, b) => b - a)
+    .forEach((paragraphIndex) => {
+      const paragraph = paragraphs[paragraphIndex];
+      const content = rewriteParagraph(
+        paragraph.content,
+        editsByParagraph[paragraphIndex],
+        context
+      );
+      xml = `${xml.substring(0, paragraph.start)}<w:p${paragraph.attributes}>${content}</w:p>${xml.substring(paragraph.end)}`;
+    });
+
+  entries[DOCUMENT_PART] = Buffer.from(xml, "utf8");
+  return { docx: writeZipEntries(entries), applied, skipped };
+}
@@ -0,0 +1,160 @@
+/**
+ * Minimal ZIP reading and writing for .docx packages, using Node's zlib
+ * Supports the stored and deflated entries Word writes; ZIP64 archives are rejected
+ */
+
+import * as zlib from "zlib";
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+/**
+ * Entry contents by path inside the archive, e.g. "word/document.xml"
+ */
+export type ZipEntries = { [path: string]: Buffer };
+
+/**
+ * Locate the end-of-central-directory record, which sits before an optional trailing comment
+ */
+function findEndOfCentralDirectory(archive: Buffer): number {
+  const earliest = Math.max(0, archive.length - 22 - 0xffff);
+  for (let offset = archive.length - 22; offset >= earliest; offset--) {
+    if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new Error("Not a ZIP archive (no end of central directory record)");
+}
+
+/**
+ * Read every file entry of a ZIP archive
+ */
+export function readZipEntries(archive: Buffer): ZipEntries {
+  const end = findEndOfCentralDirectory(archive);
+  const entryCount = archive.readUInt16LE(end + 10);
+  const directoryOffset = archive.readUInt32LE(end + 16);
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new Error("ZIP64 archives are not supported");
+  }
+
+  const entries: ZipEntries = {};
+  let offset = directoryOffset;
+  for (let index = 0; index < entryCount; index++) {
+    if (archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error(`Corrupt ZIP central directory at entry ${index}`);
+    }
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localHeaderOffset = archive.readUInt32LE(offset + 42);
+    const path = archive.toString("utf8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.charAt(path.length - 1) === "/") {
+      continue; // Directory
+    }
+    if (archive.readUInt32LE(localHeaderOffset) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt ZIP local header for ${path}`);
+    }
+    // The local header's own name and extra lengths can differ from the central directory's
+    const dataStart =
+      localHeaderOffset +
+      30 +
+      archive.readUInt16LE(localHeaderOffset + 26) +
+      archive.readUInt16LE(localHeaderOffset + 28);
+    const data = archive.slice(dataStart, dataStart + compressedSize);
+
+    if (method === METHOD_STORED) {
+      entries[path] = data;
+    } else if (method === METHOD_DEFLATED) {
+      entries[path] = zlib.inflateRawSync(data);
+    } else {
+      throw new Error(`Unsupported compression method ${method} for ${path}`);
+    }
+  }
+  return entries;
+}
+
+let crcTable: number[] | null = null;
+
+function crc32(data: Buffer): number {
+  if (!crcTable) {
+    crcTable = [];
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable.push(c >>> 0);
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Write entries to a new ZIP archive, deflated, in the order given.
+ * Word expects [Content_Types].xml first, which holds when the entries came from readZipEntries.
+ */
+export function writeZipEntries(entries: ZipEntries): Buffer {
+  const localParts: Buffer[] = [];
+  const directoryParts: Buffer[] = [];
+  let offset = 0;
+
+  Object.keys(entries).forEach((path) => {
+    const data = entries[path];
+    const compressed = zlib.deflateRawSync(data);
+    const name = Buffer.from(path, "utf8");
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    local.writeUInt16LE(20, 4); // Version needed to extract
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(METHOD_DEFLATED, 8);
+    local.writeUInt16LE(0, 10); // Time
+    local.writeUInt16LE(0x21, 12); // Date: 1980-01-01
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const directory = Buffer.alloc(46);
+    directory.writeUInt32LE(CENTRAL_DIRECTORY_ENTRY, 0);
+    directory.writeUInt16LE(20, 4); // Version made by
+    directory.writeUInt16LE(20, 6);
+    directory.writeUInt16LE(0x0800, 8);
+    directory.writeUInt16LE(METHOD_DEFLATED, 10);
+    directory.writeUInt16LE(0, 12);
+    directory.writeUInt16LE(0x21, 14);
+    directory.writeUInt32LE(crc, 16);
+    directory.writeUInt32LE(compressed.length, 20);
+    directory.writeUInt32LE(data.length, 24);
+    directory.writeUInt16LE(name.length, 28);
+    directory.writeUInt32LE(offset, 42); // Remaining fields (extra, comment, disk, attributes) stay zero
+
+    localParts.push(local, name, compressed);
+    directoryParts.push(directory, name);
+    offset += local.length + name.length + compressed.length;
+  });
+
+  const directorySize = directoryParts.reduce((total, part) => total + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(Object.keys(entries).length, 8);
+  end.writeUInt16LE(Object.keys(entries).length, 10);
+  end.writeUInt32LE(directorySize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat(localParts.concat(directoryParts, [end]));
+}
@@ -2,41 +2,117 @@ import * as React from "react";
 import { useState, useRef } from "react";
 import { documentSchema, suggestionsArraySchema } from "../utils/jsonSchema";
 import { getRangeForOffsets, verifyMapping } from "../utils/segmentMapping";
-import { processDocumentJson, convertToLegacyFormat, validateCharacterOffsets, verifySuggestionsAgainstJson, ProcessedSuggestion } from '../utils/jsonProcessor';
-import { processCorrectionData, CorrectionObject } from '../utils/documentMapping';
-import { correctionReviewManager, ReviewProgress } from '../utils/correctionReviewManager';
+import {
+  processDocumentJson,
+  convertToLegacyFormat,
+  validateCharacterOffsets,
+  verifySuggestionsAgainstJson,
+  ProcessedSuggestion,
+} from "../utils/jsonProcessor";
+import { CorrectionObject, ParagraphMappingResult } from "../utils/documentMapping";
+import { processCorrectionData } from "../utils/wordAdapter";
+import {
+  correctionReviewManager,
+  ReviewProgress,
+  ApplyMode,
+  ReviewSessionInfo,
+} from "../utils/correctionReviewManager";
+import { DiffGranularity, DEFAULT_GRANULARITY } from "../utils/textDiff";
+import {
+  PersistedReviewSession,
+  readPersistedSession,
+  describeReviewSource,
+  isSameReviewSource,
+} from "../utils/sessionPersistence";
+import { ReviewAction, ShortcutMap, loadShortcuts, saveShortcuts } from "../utils/reviewShortcuts";
+import FocusedReview from "./FocusedReview";
+import DiffPreview from "./DiffPreview";
+import { DEFAULT_PREVIEW_CONTEXT, previewCorrection, previewParagraph } from "../utils/diffPreview";
+import {
+  CorrectionFilter,
+  filterCorrections,
+  isFilterActive,
+  groupCorrectionsByParagraph,
+} from "../utils/correctionFilter";
+import { buildReconciledDocument } from "../utils/reconciledExport";
+import { buildAuditReport, formatAuditReport, AuditReportFormat } from "../utils/auditReport";
+import {
+  StartupProgress,
+  CancellationToken,
+  ReviewCancelledError,
+  STARTUP_PHASE_LABELS,
+} from "../utils/startupProgress";
+import {
+  StyleMap,
+  loadStyleMap,
+  saveStyleMap,
+  validateStyleMap,
+  DEFAULT_STYLE_MAP,
+} from "../utils/styleMap";
 // Legacy imports removed - these functions no longer exist in documentMapping.ts
 // import { buildCharacterOffsetDict, getRangeForCharacterOffsets } from "../utils/documentMapping";
 
 // Simple button styles
 const buttonStyle = {
-  padding: '8px 16px',
-  margin: '4px',
-  border: '1px solid #ccc',
-  borderRadius: '4px',
-  cursor: 'pointer',
-  backgroundColor: '#f8f9fa'
+  padding: "8px 16px",
+  margin: "4px",
+  border: "1px solid #ccc",
+  borderRadius: "4px",
+  cursor: "pointer",
+  backgroundColor: "#f8f9fa",
 };
 
 const primaryButtonStyle = {
   ...buttonStyle,
-  backgroundColor: '#0078d4',
-  color: 'white',
-  border: '1px solid #0078d4'
+  backgroundColor: "#0078d4",
+  color: "white",
+  border: "1px solid #0078d4",
 };
 
 const dangerButtonStyle = {
   ...buttonStyle,
-  backgroundColor: '#d13438',
-  color: 'white',
-  border: '1px solid #d13438'
+  backgroundColor: "#d13438",
+  color: "white",
+  border: "1px solid #d13438",
 };
 
 const successButtonStyle = {
   ...buttonStyle,
-  backgroundColor: '#107c10',
-  color: 'white',
-  border: '1px solid #107c10'
+  backgroundColor: "#107c10",
+  color: "white",
+  border: "1px solid #107c10",
+};
+
+// Human-readable line for a paragraph alignment outcome
+const describeMapping = (mapping: ParagraphMappingResult): string => {
+  const jsonLabel = mapping.paragraphNumbers.map((n) => `Para ${n}`).join(" + ");
+  const wordLabel = mapping.wordParagraphIndexes.map((i) => `Word paragraph ${i + 1}`).join(" + ");
+  switch (mapping.outcome) {
+    case "matched":
+      return `${jsonLabel} (${mapping.wordNativeParaIds[0]}): matched by ${mapping.strategy} → ${wordLabel}`;
+    case "insertedInWord":
+      return `${wordLabel}: inserted in Word, not in JSON`;
+    case "missingFromWord":
+      return `${jsonLabel} (${mapping.wordNativeParaIds[0]}): missing from Word`;
+    case "split":
+      return `${jsonLabel}: split in Word into ${wordLabel}`;
+    case "merged":
+      return `${jsonLabel}: merged in Word into ${wordLabel}`;
+    default:
+      return jsonLabel;
+  }
+};
+
+// Offer text content to the user as a file download
+const downloadTextFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
 };
 
 const App: React.FC<{}> = () => {
@@ -46,67 +122,72 @@ const App: React.FC<{}> = () => {
   React.useEffect(() => {
     (window as any).testDocumentMapping = () => {
       const testJson = {
-        "document_id": 157,
-        "document_title": "Test Project KGL T&F - 2025-05-24 16:40",
-        "completed_stages": ["preworkout", "language-edit"],
-        "paragraphs": [
+        document_id: 157,
+        document_title: "Test Project KGL T&F - 2025-05-24 16:40",
+        completed_stages: ["preworkout", "language-edit"],
+        paragraphs: [
           {
-            "paragraph_number": 1,
-            "word_native_para_id": "36E7A870",
-            "original_text_no_markers": "Dutch (Moroccan)",
-            "input_with_markers": "<[i]><[b]>Dutch (Moroccan)<[/b]><[/i]>",
-            "latest_edited_text": "<{ch_head}> <[i]><[b]>Dutch (Moroccan)<[/b]><[/i]>"
+            paragraph_number: 1,
+            word_native_para_id: "36E7A870",
+            original_text_no_markers: "Dutch (Moroccan)",
+            input_with_markers: "<[i]><[b]>Dutch (Moroccan)<[/b]><[/i]>",
+            latest_edited_text: "<{ch_head}> <[i]><[b]>Dutch (Moroccan)<[/b]><[/i]>",
           },
           {
-            "paragraph_number": 2,
-            "word_native_para_id": "70359924",
-            "original_text_no_markers": "22",
-            "input_with_markers": "<[b]>22<[/b]>",
-            "latest_edited_text": "<{ch_head}> <[b]>22<[/b]>"
+            paragraph_number: 2,
+            word_native_para_id: "70359924",
+            original_text_no_markers: "22",
+            input_with_markers: "<[b]>22<[/b]>",
+            latest_edited_text: "<{ch_head}> <[b]>22<[/b]>",
           },
           {
-            "paragraph_number": 3,
-            "word_native_para_id": "5340ECB8",
-            "original_text_no_markers": "Approach to Neuropsychological Assessment of Moroccan patients in the Netherlands",
-            "input_with_markers": "<[b]>Approach to Neuropsychological Assessment of Moroccan patients in the Netherlands<[/b]>",
-            "latest_edited_text": "<{ch_head}> <[b]>Approach to Neuropsychological Assessment of Moroccan patients in the Netherlands<[/b]>"
-          }
-        ]
+            paragraph_number: 3,
+            word_native_para_id: "5340ECB8",
+            original_text_no_markers:
+              "Approach to Neuropsychological Assessment of Moroccan patients in the Netherlands",
+            input_with_markers:
+              "<[b]>Approach to Neuropsychological Assessment of Moroccan patients in the Netherlands<[/b]>",
+            latest_edited_text:
+              "<{ch_head}> <[b]>Approach to Neuropsychological Assessment of Moroccan patients in the Netherlands<[/b]>",
+          },
+        ],
       };
-      
+
       try {
         const result = processDocumentJson(testJson);
-        console.log('=== Document Processing Result ===');
-        console.log('Document:', result.documentData.document_title);
-        console.log('Total Characters:', result.totalCharacters);
+        console.log("=== Document Processing Result ===");
+        console.log("Document:", result.documentData.document_title);
+        console.log("Total Characters:", result.totalCharacters);
         // Legacy characterMappings property removed
         // console.log('Character Mappings:', result.characterMappings);
-        console.log('Suggestions:', result.suggestions);
-        
+        console.log("Suggestions:", result.suggestions);
+
         // Test specific character ranges
-        console.log('\n=== Character Range Tests ===');
+        console.log("\n=== Character Range Tests ===");
         // Legacy characterMappings property removed - use processCorrectionData instead
         // const mappings = result.characterMappings;
-        console.log('Legacy character mappings removed. Use processCorrectionData for new correction workflow.');
-        
+        console.log(
+          "Legacy character mappings removed. Use processCorrectionData for new correction workflow."
+        );
+
         // Legacy test extraction function removed - mappings no longer available
         const testExtract = (start: number, end: number, expected: string) => {
           console.log(`Legacy testExtract function called for range ${start}-${end}`);
-          console.log('Character mappings no longer available. Use processCorrectionData instead.');
+          console.log("Character mappings no longer available. Use processCorrectionData instead.");
           const match = false; // Always false since legacy function is non-functional
           console.log(`${start}-${end}: "Legacy function disabled" ✗ (expected: "${expected}")`);
           return match;
         };
-        
+
         // Test ranges
-        testExtract(0, 15, 'Dutch (Moroccan)');
-        testExtract(15, 17, '22');
-        testExtract(17, 25, 'Approach');
-        testExtract(0, 17, 'Dutch (Moroccan)22');
-        
+        testExtract(0, 15, "Dutch (Moroccan)");
+        testExtract(15, 17, "22");
+        testExtract(17, 25, "Approach");
+        testExtract(0, 17, "Dutch (Moroccan)22");
+
         return result;
       } catch (error) {
-        console.error('Test failed:', error);
+        console.error("Test failed:", error);
         return null;
       }
     };
@@ -122,9 +203,43 @@ const App: React.FC<{}> = () => {
   const [corrections, setCorrections] = useState<CorrectionObject[]>([]);
   const [isReviewActive, setIsReviewActive] = useState(false);
   const [currentCorrection, setCurrentCorrection] = useState<CorrectionObject | null>(null);
-  const [reviewProgress, setReviewProgress] = useState<ReviewProgress>({ current: 0, total: 0, applied: 0, rejected: 0, skipped: 0, pending: 0 });
+  const [reviewProgress, setReviewProgress] = useState<ReviewProgress>({
+    current: 0,
+    total: 0,
+    applied: 0,
+    rejected: 0,
+    skipped: 0,
+    pending: 0,
+  });
   const [documentData, setDocumentData] = useState<any>(null);
   const [animatingCorrections, setAnimatingCorrections] = useState<Set<string>>(new Set());
+  const [applyMode, setApplyMode] = useState<ApplyMode>("trackedChanges");
+  const [paragraphMappings, setParagraphMappings] = useState<ParagraphMappingResult[]>([]);
+  const [styleMap, setStyleMap] = useState<StyleMap>(() => loadStyleMap());
+  const [styleMapDraft, setStyleMapDraft] = useState<string | null>(null);
+  const [processingWarnings, setProcessingWarnings] = useState<string[]>([]);
+  const [granularity, setGranularity] = useState<DiffGranularity>(DEFAULT_GRANULARITY);
+  const [focusMode, setFocusMode] = useState(false);
+  const [previewContext, setPreviewContext] = useState<number>(DEFAULT_PREVIEW_CONTEXT);
+  const [shortcuts, setShortcuts] = useState<ShortcutMap>(() => loadShortcuts());
+  const [correctionFilter, setCorrectionFilter] = useState<CorrectionFilter>({});
+  const [groupByParagraph, setGroupByParagraph] = useState(true);
+  const [collapsedParagraphs, setCollapsedParagraphs] = useState<Set<number>>(new Set());
+  const [savedSession, setSavedSession] = useState<PersistedReviewSession | null>(() =>
+    readPersistedSession()
+  );
+  const [historyLabels, setHistoryLabels] = useState<{ undo: string | null; redo: string | null }>({
+    undo: null,
+    redo: null,
+  });
+  const [startupProgress, setStartupProgress] = useState<StartupProgress | null>(null);
+  // Corrections of the review that ended last, so its report and reconciled JSON can still be exported
+  const [endedReview, setEndedReview] = useState<{
+    corrections: CorrectionObject[];
+    sessionInfo: ReviewSessionInfo | null;
+  } | null>(null);
+  const startupCancellation = useRef<CancellationToken | null>(null);
+  const reviewActionPending = useRef(false);
 
   const normalizeSuggestion = (s: any) => {
     if (typeof s.text === "string") {
@@ -149,10 +264,10 @@ const App: React.FC<{}> = () => {
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
-    file.text().then(text => {
+    file.text().then((text) => {
       try {
         const json = JSON.parse(text);
-        
+
         // Parse as document format
         const documentResult = documentSchema.safeParse(json);
         if (documentResult.success) {
@@ -160,9 +275,11 @@ const App: React.FC<{}> = () => {
           setError(null);
           setSuccess(true);
           setMessage("JSON loaded successfully. Click 'Start Review' to find corrections.");
-          console.log('Document format loaded:', json.document_title);
+          console.log("Document format loaded:", json.document_title);
         } else {
-          setError("Invalid JSON format. Expected document format: " + documentResult.error.message);
+          setError(
+            "Invalid JSON format. Expected document format: " + documentResult.error.message
+          );
           setSuccess(false);
         }
       } catch (e: any) {
@@ -172,126 +289,243 @@ const App: React.FC<{}> = () => {
     });
   };
 
+  // Removed duplicate function declarations - handlers are defined below
 
-
-  // Highlight the current correction in the Word document
-  const highlightCurrentCorrection = async (correction: CorrectionObject) => {
+  // Run one review action at a time. Word applies a correction over several syncs, so a second
+  // click or key press before they finish is ignored rather than racing the first.
+  const runReviewAction = async (action: () => Promise<void>) => {
+    if (reviewActionPending.current) {
+      console.log("⏳ Review action ignored - the previous one is still running");
+      return;
+    }
+    reviewActionPending.current = true;
     try {
-      await Word.run(async context => {
-        if (correction.wordRange) {
-          // Clear previous highlights by removing formatting
-          const allRanges = context.document.body.getRange();
-          allRanges.font.highlightColor = null;
-          
-          // Apply highlight to current correction
-          correction.wordRange.font.highlightColor = '#ffeb3b'; // Yellow highlight
-          correction.wordRange.font.underline = Word.UnderlineType.single;
-          
-          await context.sync();
-          console.log(`Highlighted correction: ${correction.changeType} "${correction.diffText}"`);
-        }
-      });
-    } catch (error) {
-      console.error('Error highlighting correction:', error);
+      await action();
+    } finally {
+      reviewActionPending.current = false;
     }
   };
 
-  // Removed duplicate function declarations - handlers are defined below
+  // Wait for the fade-out animation to start
+  const waitForAnimation = () => new Promise<void>((resolve) => setTimeout(resolve, 150)); // Small delay for smooth UX
+
+  const endAnimation = (correctionId: string) => {
+    setTimeout(() => {
+      setAnimatingCorrections((prev) => {
+        const newSet = new Set(Array.from(prev));
+        newSet.delete(correctionId);
+        return newSet;
+      });
+    }, 300); // Match CSS transition duration
+  };
 
   // Handle applying specific correction by ID with smooth animation
-  const handleApplySpecificCorrection = async (correctionId: string) => {
-    // Start fade-out animation
-    setAnimatingCorrections(prev => new Set(Array.from(prev)).add(correctionId));
-    
-    // Wait for animation to start
-    setTimeout(async () => {
-      if (correctionReviewManager) {
-        try {
-          const success = await correctionReviewManager.applySpecificCorrection(correctionId);
-          if (success) {
-            setMessage(`Correction applied successfully!`);
-            setError("");
-            
-            // Update the corrections state to reflect the change
-            setCorrections(prev => 
-              prev.map(c => 
-                c.id === correctionId 
-                  ? { ...c, status: 'applied' as const }
-                  : c
-              )
-            );
-          } else {
-            setError(`Failed to apply correction`);
-          }
-        } catch (error: any) {
-          setError(`Error applying correction: ${error.message}`);
+  const handleApplySpecificCorrection = (correctionId: string) =>
+    runReviewAction(async () => {
+      // Start fade-out animation
+      setAnimatingCorrections((prev) => new Set(Array.from(prev)).add(correctionId));
+      await waitForAnimation();
+
+      try {
+        const success = await correctionReviewManager.applySpecificCorrection(correctionId);
+        if (success) {
+          setMessage(`Correction applied successfully!`);
+          setError("");
+
+          // Update the corrections state to reflect the change
+          setCorrections((prev) =>
+            prev.map((c) => (c.id === correctionId ? { ...c, status: "applied" as const } : c))
+          );
+        } else {
+          setError(`Failed to apply correction`);
         }
-        
-        // Remove from animating set after successful application
-        setTimeout(() => {
-          setAnimatingCorrections(prev => {
-            const newSet = new Set(Array.from(prev));
-            newSet.delete(correctionId);
-            return newSet;
-          });
-        }, 300); // Match CSS transition duration
+      } catch (error: any) {
+        setError(`Error applying correction: ${error.message}`);
       }
-    }, 150); // Small delay for smooth UX
-  };
+
+      // Remove from animating set after successful application
+      endAnimation(correctionId);
+    });
 
   // Handle rejecting specific correction by ID with smooth animation
-  const handleRejectSpecificCorrection = async (correctionId: string) => {
-    // Start fade-out animation
-    setAnimatingCorrections(prev => new Set(Array.from(prev)).add(correctionId));
-    
-    // Wait for animation to start
-    setTimeout(async () => {
-      if (correctionReviewManager) {
-        try {
-          const success = await correctionReviewManager.rejectSpecificCorrection(correctionId);
-          if (success) {
-            setMessage(`Correction rejected`);
-            setError("");
-            
-            // Update the corrections state to reflect the change
-            setCorrections(prev => 
-              prev.map(c => 
-                c.id === correctionId 
-                  ? { ...c, status: 'rejected' as const }
-                  : c
-              )
-            );
-          } else {
-            setError(`Failed to reject correction`);
-          }
-        } catch (error: any) {
-          setError(`Error rejecting correction: ${error.message}`);
+  const handleRejectSpecificCorrection = (correctionId: string) =>
+    runReviewAction(async () => {
+      // Start fade-out animation
+      setAnimatingCorrections((prev) => new Set(Array.from(prev)).add(correctionId));
+      await waitForAnimation();
+
+      try {
+        const success = await correctionReviewManager.rejectSpecificCorrection(correctionId);
+        if (success) {
+          setMessage(`Correction rejected`);
+          setError("");
+
+          // Update the corrections state to reflect the change
+          setCorrections((prev) =>
+            prev.map((c) => (c.id === correctionId ? { ...c, status: "rejected" as const } : c))
+          );
+        } else {
+          setError(`Failed to reject correction`);
         }
-        
-        // Remove from animating set after successful rejection
-        setTimeout(() => {
-          setAnimatingCorrections(prev => {
-            const newSet = new Set(Array.from(prev));
-            newSet.delete(correctionId);
-            return newSet;
-          });
-        }, 300); // Match CSS transition duration
+      } catch (error: any) {
+        setError(`Error rejecting correction: ${error.message}`);
       }
-    }, 150); // Small delay for smooth UX
+
+      // Remove from animating set after successful rejection
+      endAnimation(correctionId);
+    });
+
+  // Handle applying all pending corrections that match the current filters
+  const handleApplyAllCorrections = () =>
+    runReviewAction(async () => {
+      const ids = filterCorrections(corrections, correctionFilter).map((c) => c.id);
+      await correctionReviewManager.applyCorrections(
+        ids,
+        isFilterActive(correctionFilter) ? "Accept filtered" : "Accept all"
+      );
+    });
+
+  // Handle rejecting all pending corrections that match the current filters
+  const handleRejectAllCorrections = () =>
+    runReviewAction(async () => {
+      const ids = filterCorrections(corrections, correctionFilter).map((c) => c.id);
+      await correctionReviewManager.rejectCorrections(
+        ids,
+        isFilterActive(correctionFilter) ? "Reject filtered" : "Reject all"
+      );
+    });
+
+  // Correction list filters and paragraph groups
+  const updateCorrectionFilter = (change: Partial<CorrectionFilter>) => {
+    setCorrectionFilter((prev) => ({ ...prev, ...change }));
   };
 
-  // Handle applying all pending corrections
-  const handleApplyAllCorrections = async () => {
-    if (correctionReviewManager) {
-      await correctionReviewManager.applyAllPendingCorrections();
+  const handleToggleParagraphGroup = (paragraphNumber: number) => {
+    setCollapsedParagraphs((prev) => {
+      const next = new Set(Array.from(prev));
+      if (next.has(paragraphNumber)) {
+        next.delete(paragraphNumber);
+      } else {
+        next.add(paragraphNumber);
+      }
+      return next;
+    });
+  };
+
+  // Undo / redo the last accept, reject or bulk action
+  const undoLastAction = async () => {
+    const undone = await correctionReviewManager.undo();
+    if (!undone) {
+      setError("Nothing could be undone");
     }
   };
 
-  // Handle rejecting all pending corrections
-  const handleRejectAllCorrections = async () => {
-    if (correctionReviewManager) {
-      await correctionReviewManager.rejectAllPendingCorrections();
+  const handleUndo = () => runReviewAction(undoLastAction);
+
+  const handleRedo = () =>
+    runReviewAction(async () => {
+      const redone = await correctionReviewManager.redo();
+      if (!redone) {
+        setError("Nothing could be redone");
+      }
+    });
+
+  // The review to export: the active one, or else the one that ended last
+  const reviewToExport = () =>
+    isReviewActive
+      ? {
+          corrections: correctionReviewManager.getCorrections(),
+          sessionInfo: correctionReviewManager.getSessionInfo(),
+        }
+      : endedReview;
+
+  // Export the audit report of the current (or just ended) review
+  const handleExportReport = (format: AuditReportFormat) => {
+    const review = reviewToExport();
+    if (!review) return;
+    const { sessionInfo } = review;
+    const report = buildAuditReport(review.corrections, {
+      reviewStartedAt: sessionInfo ? sessionInfo.startTime : null,
+      applyMode: sessionInfo ? sessionInfo.applyMode : null,
+      source: sessionInfo ? sessionInfo.source : null,
+      granularity: sessionInfo ? sessionInfo.granularity : null,
+    });
+    const { content, extension, mimeType } = formatAuditReport(report, format);
+    const baseName =
+      report.source && report.source.documentId !== null
+        ? `review-${report.source.documentId}`
+        : "review";
+    downloadTextFile(`${baseName}-report.${extension}`, content, mimeType);
+    setMessage(`Exported ${report.entries.length} corrections as ${extension.toUpperCase()}.`);
+  };
+
+  // Export the pipeline JSON with the reviewer's decisions written back
+  const handleExportReconciledJson = () => {
+    const review = reviewToExport();
+    if (!review) return;
+    const { sessionInfo } = review;
+    if (!documentData) {
+      setError(
+        "Load the pipeline JSON this review was started from to export the reconciled JSON."
+      );
+      return;
+    }
+    if (
+      sessionInfo &&
+      sessionInfo.source &&
+      !isSameReviewSource(sessionInfo.source, describeReviewSource(documentData))
+    ) {
+      setError("The loaded JSON is not the one this review was started from.");
+      return;
     }
+    const reconciled = buildReconciledDocument(documentData, review.corrections, {
+      paragraphMappings,
+    });
+    downloadTextFile(
+      `${reconciled.document_id}-word-review.json`,
+      JSON.stringify(reconciled, null, 2),
+      "application/json"
+    );
+    setError("");
+    setMessage(
+      `Exported reconciled JSON (${reconciled.word_review.rejected_count} rejected edits recorded).`
+    );
+  };
+
+  // Keyboard-driven review of the current correction
+  const handleReviewAction = (action: ReviewAction) =>
+    runReviewAction(async () => {
+      try {
+        switch (action) {
+          case "accept":
+            if (!(await correctionReviewManager.applyCurrentCorrection())) {
+              setError("Failed to apply correction");
+            }
+            break;
+          case "reject":
+            correctionReviewManager.rejectCurrentCorrection();
+            break;
+          case "skip":
+            correctionReviewManager.skipCurrentCorrection();
+            break;
+          case "next":
+            correctionReviewManager.navigateNext();
+            break;
+          case "previous":
+            correctionReviewManager.navigatePrevious();
+            break;
+          case "undo":
+            await undoLastAction();
+            break;
+        }
+      } catch (error: any) {
+        setError(`Error during review: ${error.message}`);
+      }
+    });
+
+  const handleShortcutsChange = (updated: ShortcutMap) => {
+    setShortcuts(updated);
+    saveShortcuts(updated);
   };
 
   // Legacy handlers (kept for compatibility)
@@ -326,32 +560,111 @@ const App: React.FC<{}> = () => {
   };
 
   // End review session
-  const handleEndReview = () => {
-    const finalStats = correctionReviewManager.endReview();
+  const handleEndReview = async () => {
+    const results = {
+      corrections: correctionReviewManager.getCorrections(),
+      sessionInfo: correctionReviewManager.getSessionInfo(),
+    };
+    const finalStats = await correctionReviewManager.endReview();
+    setEndedReview(results);
     setIsReviewActive(false);
     setCurrentCorrection(null);
-    setMessage(`Review completed. Applied: ${finalStats.applied}, Rejected: ${finalStats.rejected}, Skipped: ${finalStats.skipped}`);
+    setHistoryLabels({ undo: null, redo: null });
+    setMessage(
+      `Review completed. Applied: ${finalStats.applied}, Rejected: ${finalStats.rejected}, Skipped: ${finalStats.skipped}`
+    );
     setSuccess(true);
-    setError('');
-    
-    // Clear all highlights
-    Word.run(async context => {
-      const allRanges = context.document.body.getRange();
-      allRanges.font.highlightColor = null;
-      allRanges.font.underline = Word.UnderlineType.none;
-      await context.sync();
-    });
+    setError("");
   };
 
+  // Open, save or reset the marker → Word style map editor
+  const handleToggleStyleMapEditor = () => {
+    setStyleMapDraft(styleMapDraft === null ? JSON.stringify(styleMap, null, 2) : null);
+  };
 
+  const handleSaveStyleMap = () => {
+    try {
+      const parsed = JSON.parse(styleMapDraft || "");
+      const validationError = validateStyleMap(parsed);
+      if (validationError) {
+        setError(validationError);
+        return;
+      }
+      saveStyleMap(parsed);
+      setStyleMap(parsed);
+      setStyleMapDraft(null);
+      setError("");
+      setMessage("Style map saved.");
+    } catch (e: any) {
+      setError("Invalid style map JSON: " + e.message);
+    }
+  };
 
+  const handleResetStyleMap = () => {
+    setStyleMapDraft(JSON.stringify(DEFAULT_STYLE_MAP, null, 2));
+  };
 
+  // Keep the pane in sync with the review manager
+  const attachReviewListeners = () => {
+    correctionReviewManager.onProgress((progress) => {
+      setReviewProgress(progress);
+      setCorrections(correctionReviewManager.getCorrections());
+      setHistoryLabels(correctionReviewManager.getHistoryLabels());
+    });
 
+    correctionReviewManager.setCorrectionChangeCallback((correction) => {
+      setCurrentCorrection(correction);
+      if (correction) {
+        // Select and scroll to the correction in Word as focus moves
+        correctionReviewManager.selectCorrection(correction.id);
+      }
+    });
+  };
 
-
-
-
-
+  // Resume the review session saved in the document
+  const handleResumeReview = async () => {
+    if (!savedSession) return;
+    // Only decisions are saved; the corrections themselves are regenerated from the same JSON
+    if (
+      !documentData ||
+      !isSameReviewSource(savedSession.source, describeReviewSource(documentData))
+    ) {
+      setError("Load the JSON this review was started with to resume it.");
+      setSuccess(false);
+      return;
+    }
+    try {
+      setError("");
+      await Word.run(async (context) => {
+        const {
+          corrections: regenerated,
+          paragraphMappings: mappings,
+          warnings,
+        } = await processCorrectionData(context, documentData, {
+          styleMap,
+          granularity: savedSession.granularity,
+          fromJsonOriginal: true,
+        });
+        setParagraphMappings(mappings);
+        setProcessingWarnings(warnings);
+        attachReviewListeners();
+        await correctionReviewManager.resumeReview(savedSession, regenerated);
+      });
+      setCorrections(correctionReviewManager.getCorrections());
+      setApplyMode(savedSession.applyMode);
+      setIsReviewActive(true);
+      setSavedSession(null);
+      setEndedReview(null);
+      setMessage(
+        `Review resumed. ${savedSession.corrections.filter((c) => c.status === "pending").length} corrections still pending.`
+      );
+      setSuccess(true);
+    } catch (e: any) {
+      console.error("Error resuming review:", e);
+      setError("Error resuming review: " + e.message);
+      setSuccess(false);
+    }
+  };
 
   // Start interactive correction review
   const handleStartReview = async () => {
@@ -360,14 +673,28 @@ const App: React.FC<{}> = () => {
       setSuccess(false);
       return;
     }
+    const cancellation = new CancellationToken();
+    startupCancellation.current = cancellation;
+    setStartupProgress({ phase: "mapping", completed: 0, total: 0, corrections: 0 });
     try {
       setError("");
       setMessage("Processing corrections...");
-      
-      await Word.run(async context => {
-        const processedCorrections = await processCorrectionData(context, documentData);
+
+      await Word.run(async (context) => {
+        const {
+          corrections: processedCorrections,
+          paragraphMappings: mappings,
+          warnings,
+        } = await processCorrectionData(context, documentData, {
+          styleMap,
+          granularity,
+          onProgress: setStartupProgress,
+          cancellation,
+        });
         setCorrections(processedCorrections);
-        
+        setParagraphMappings(mappings);
+        setProcessingWarnings(warnings);
+
         if (processedCorrections.length === 0) {
           setMessage("No corrections found to review.");
           setSuccess(true);
@@ -376,34 +703,196 @@ const App: React.FC<{}> = () => {
 
         // Initialize the review manager with preview highlighting
         setMessage("Highlighting corrections in document...");
-        await correctionReviewManager.startReview(processedCorrections);
-        setIsReviewActive(true);
-        setMessage("Review started! All corrections are now highlighted in the document.");
-        
-        // Set up event listeners
-        correctionReviewManager.onProgress((progress) => {
-          setReviewProgress(progress);
-        });
-        
-        correctionReviewManager.setCorrectionChangeCallback((correction) => {
-          setCurrentCorrection(correction);
-          if (correction) {
-            highlightCurrentCorrection(correction);
-          }
+        await correctionReviewManager.startReview(processedCorrections, {
+          applyMode,
+          source: describeReviewSource(documentData),
+          granularity,
+          onProgress: setStartupProgress,
+          cancellation,
         });
-        
-        setMessage(`Review started. Found ${processedCorrections.length} corrections to review.`);
+        setSavedSession(null);
+        setEndedReview(null);
+        setIsReviewActive(true);
+        if (correctionReviewManager.getApplyMode() !== applyMode) {
+          setApplyMode(correctionReviewManager.getApplyMode()!);
+        }
+        setMessage("Review started! All corrections are now marked in the document.");
+
+        attachReviewListeners();
+
+        const highlightReport = correctionReviewManager.getLastHighlightReport();
+        const timing = highlightReport
+          ? ` Marked in ${(highlightReport.elapsedMs / 1000).toFixed(1)}s.`
+          : "";
+        setMessage(
+          `Review started. Found ${processedCorrections.length} corrections to review.${timing}`
+        );
         setSuccess(true);
       });
     } catch (e: any) {
+      if (e instanceof ReviewCancelledError) {
+        setCorrections([]);
+        setMessage("Review startup cancelled. The document was left unchanged.");
+        setSuccess(false);
+        return;
+      }
       console.error("Error starting review:", e);
       setError("Error starting review: " + e.message);
       setSuccess(false);
+    } finally {
+      startupCancellation.current = null;
+      setStartupProgress(null);
     }
   };
 
+  const handleCancelStartup = () => {
+    if (startupCancellation.current) {
+      startupCancellation.current.cancel();
+      setMessage("Cancelling...");
+    }
+  };
+
+  // Card for a single correction with its Accept/Reject actions
+  const renderCorrectionCard = (correction: CorrectionObject, isLast: boolean) => {
+    const isAnimating = animatingCorrections.has(correction.id);
+    const isProcessed = correction.status === "applied" || correction.status === "rejected";
+    // Processed cards collapse away unless the user is filtering by status
+    const isHidden = isProcessed && !isAnimating && !correctionFilter.status;
+
+    return (
+      <div
+        key={correction.id}
+        style={{
+          padding: "12px",
+          borderBottom: isLast ? "none" : "1px solid #eee",
+          backgroundColor:
+            correction.status === "applied"
+              ? "#f0f8f0"
+              : correction.status === "rejected"
+                ? "#fdf2f2"
+                : correction.status === "skipped"
+                  ? "#f8f8f8"
+                  : "white",
+          transition: "all 0.3s ease-in-out",
+          opacity: isAnimating ? 0.3 : isProcessed ? 0.6 : 1,
+          transform: isAnimating ? "scale(0.95)" : "scale(1)",
+          maxHeight: isHidden ? "0px" : "400px",
+          overflow: "hidden",
+          marginBottom: isHidden ? "0px" : "4px",
+          paddingTop: isHidden ? "0px" : "12px",
+          paddingBottom: isHidden ? "0px" : "12px",
+          filter: isProcessed ? "grayscale(50%)" : "none",
+        }}
+      >
+        {/* Error Header with Para ID and Offset */}
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            marginBottom: "8px",
+          }}
+        >
+          <div style={{ fontSize: "12px", color: "#666" }}>
+            <strong>Para {correction.paragraphNumber}</strong> • ID: {correction.wordNativeParaId} •{" "}
+            {correction.errorType}
+          </div>
+          <div style={{ fontSize: "11px", color: "#999" }}>
+            {correction.status === "applied"
+              ? "✅ Applied"
+              : correction.status === "rejected"
+                ? "❌ Rejected"
+                : correction.status === "skipped"
+                  ? "⏭️ Skipped"
+                  : "⏳ Pending"}
+          </div>
+        </div>
+
+        {/* Error Details with Offset */}
+        <div
+          style={{
+            marginBottom: "8px",
+            padding: "8px",
+            backgroundColor: "#f8f9fa",
+            borderRadius: "4px",
+            border: "1px solid #e9ecef",
+          }}
+        >
+          <div style={{ fontSize: "13px", fontWeight: "bold", color: "#333", marginBottom: "4px" }}>
+            {correction.suggestion}
+          </div>
+          <div style={{ fontSize: "11px", color: "#666", marginBottom: "4px" }}>
+            <strong>Offset:</strong> {correction.startOffset}-{correction.endOffset} •{" "}
+            <strong>Type:</strong> {correction.changeType}
+          </div>
+          <div style={{ fontSize: "12px", color: "#555", marginBottom: "6px" }}>
+            {correction.actionDescription}
+          </div>
+          <DiffPreview preview={previewCorrection(correction, previewContext)} />
+        </div>
+
+        {/* Action Buttons - Only show for pending corrections */}
+        {correction.status === "pending" && (
+          <div style={{ display: "flex", gap: "6px" }}>
+            <button
+              style={{
+                ...successButtonStyle,
+                fontSize: "12px",
+                padding: "4px 8px",
+              }}
+              onClick={() => handleApplySpecificCorrection(correction.id)}
+            >
+              ✅ Accept
+            </button>
+            <button
+              style={{
+                ...dangerButtonStyle,
+                fontSize: "12px",
+                padding: "4px 8px",
+              }}
+              onClick={() => handleRejectSpecificCorrection(correction.id)}
+            >
+              ❌ Reject
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const filteredCorrections = filterCorrections(corrections, correctionFilter);
+  const filteredPendingCount = filteredCorrections.filter((c) => c.status === "pending").length;
+  const filterActive = isFilterActive(correctionFilter);
+
+  const exportControls = (
+    <div
+      style={{
+        marginTop: "8px",
+        display: "flex",
+        gap: "8px",
+        justifyContent: "center",
+        alignItems: "center",
+        fontSize: "12px",
+      }}
+    >
+      Export report:
+      <button style={buttonStyle} onClick={() => handleExportReport("json")}>
+        JSON
+      </button>
+      <button style={buttonStyle} onClick={() => handleExportReport("csv")}>
+        CSV
+      </button>
+      <button style={buttonStyle} onClick={() => handleExportReport("html")}>
+        HTML
+      </button>
+      <button style={buttonStyle} onClick={handleExportReconciledJson} disabled={!documentData}>
+        Reconciled JSON
+      </button>
+    </div>
+  );
+
   return (
-    <div style={{ minHeight: '100vh', padding: '24px' }}>
+    <div style={{ minHeight: "100vh", padding: "24px" }}>
       <h2>Diff pipeline</h2>
       <input
         ref={fileInputRef}
@@ -413,143 +902,450 @@ const App: React.FC<{}> = () => {
         onChange={handleFileChange}
       />
       <button onClick={handleButtonClick}>Load JSON</button>
+      <label style={{ marginLeft: "8px", fontSize: "12px" }}>
+        Apply as:{" "}
+        <select
+          value={applyMode}
+          onChange={(e) => setApplyMode(e.target.value as ApplyMode)}
+          disabled={isReviewActive}
+        >
+          <option value="trackedChanges">Tracked changes</option>
+          <option value="formatting">Colored formatting</option>
+        </select>
+      </label>
       {!isReviewActive ? (
         <button
           style={primaryButtonStyle}
           onClick={handleStartReview}
-          disabled={!documentData}
+          disabled={!documentData || !!startupProgress}
         >
           ▶️ Start Review
         </button>
       ) : (
-        <button
-          style={dangerButtonStyle}
-          onClick={handleEndReview}
-        >
+        <button style={dangerButtonStyle} onClick={handleEndReview}>
           ⏹️ End Review
         </button>
       )}
+      <label style={{ marginLeft: "8px", fontSize: "12px" }}>
+        Diff by:{" "}
+        <select
+          value={granularity}
+          onChange={(e) => setGranularity(e.target.value as DiffGranularity)}
+          disabled={isReviewActive}
+        >
+          <option value="character">Character</option>
+          <option value="word">Word</option>
+          <option value="sentence">Sentence</option>
+        </select>
+      </label>
+      <button style={buttonStyle} onClick={handleToggleStyleMapEditor} disabled={isReviewActive}>
+        ⚙️ Style Map
+      </button>
+      {startupProgress && (
+        <div style={{ marginTop: "12px", fontSize: "12px" }}>
+          <div style={{ display: "flex", justifyContent: "space-between", marginBottom: "4px" }}>
+            <span>
+              {STARTUP_PHASE_LABELS[startupProgress.phase]}: {startupProgress.completed} /{" "}
+              {startupProgress.total}
+              {startupProgress.corrections > 0 && ` • ${startupProgress.corrections} corrections`}
+            </span>
+            <button style={buttonStyle} onClick={handleCancelStartup}>
+              Cancel
+            </button>
+          </div>
+          <div
+            style={{
+              height: "6px",
+              backgroundColor: "#e1dfdd",
+              borderRadius: "3px",
+              overflow: "hidden",
+            }}
+          >
+            <div
+              style={{
+                height: "100%",
+                width: `${startupProgress.total > 0 ? Math.round((startupProgress.completed / startupProgress.total) * 100) : 0}%`,
+                backgroundColor: "#0078d4",
+                transition: "width 0.2s",
+              }}
+            />
+          </div>
+        </div>
+      )}
+      {styleMapDraft !== null && (
+        <div style={{ marginTop: "8px" }}>
+          <div style={{ fontSize: "12px", color: "#666" }}>
+            Marker → Word style. Use "builtIn" (e.g. "Heading1") or "styleName" for custom styles.
+          </div>
+          <textarea
+            value={styleMapDraft}
+            onChange={(e) => setStyleMapDraft(e.target.value)}
+            rows={10}
+            style={{ width: "100%", fontFamily: "monospace", fontSize: "12px" }}
+          />
+          <button style={primaryButtonStyle} onClick={handleSaveStyleMap}>
+            Save
+          </button>
+          <button style={buttonStyle} onClick={handleResetStyleMap}>
+            Reset to defaults
+          </button>
+        </div>
+      )}
+      {!isReviewActive && savedSession && (
+        <div
+          style={{
+            marginTop: "12px",
+            padding: "10px",
+            backgroundColor: "#deecf9",
+            borderRadius: "4px",
+            fontSize: "12px",
+          }}
+        >
+          <div>
+            <strong>Saved review found</strong>
+            {savedSession.source && savedSession.source.documentTitle
+              ? ` for "${savedSession.source.documentTitle}"`
+              : ""}
+          </div>
+          <div style={{ color: "#666" }}>
+            Last saved {new Date(savedSession.savedAt).toLocaleString()} •{" "}
+            {savedSession.corrections.filter((c) => c.status !== "pending").length} of{" "}
+            {savedSession.corrections.length} decided
+          </div>
+          {!documentData && (
+            <div style={{ color: "#666" }}>
+              Load the JSON this review was started with to resume it.
+            </div>
+          )}
+          <button style={primaryButtonStyle} onClick={handleResumeReview} disabled={!documentData}>
+            ⏯️ Resume review
+          </button>
+        </div>
+      )}
+      {!isReviewActive && endedReview && exportControls}
       {error && <div style={{ color: "red", marginTop: 8 }}>{error}</div>}
       {message && <div style={{ color: "blue", marginTop: 8 }}>{message}</div>}
       {success && (
-        <div style={{ color: "green", marginTop: 8 }}>
-          Operation completed successfully!
+        <div style={{ color: "green", marginTop: 8 }}>Operation completed successfully!</div>
+      )}
+
+      {processingWarnings.length > 0 && (
+        <div
+          style={{
+            marginTop: "12px",
+            padding: "10px",
+            backgroundColor: "#fff4ce",
+            borderRadius: "4px",
+            fontSize: "12px",
+          }}
+        >
+          <div>
+            <strong>Warnings</strong>
+          </div>
+          {processingWarnings.map((warning, index) => (
+            <div key={index} style={{ color: "#8a6d00" }}>
+              {warning}
+            </div>
+          ))}
         </div>
       )}
 
+      {paragraphMappings.length > 0 && (
+        <div
+          style={{
+            marginTop: "12px",
+            padding: "10px",
+            backgroundColor: "#f3f2f1",
+            borderRadius: "4px",
+            fontSize: "12px",
+          }}
+        >
+          <div>
+            <strong>Paragraph Alignment</strong>
+          </div>
+          <div style={{ color: "#666" }}>
+            Matched by ID: {paragraphMappings.filter((m) => m.strategy === "paraId").length} | By
+            text:{" "}
+            {
+              paragraphMappings.filter(
+                (m) => m.strategy === "exactText" || m.strategy === "partialText"
+              ).length
+            }{" "}
+            | Inserted in Word:{" "}
+            {paragraphMappings.filter((m) => m.outcome === "insertedInWord").length} | Missing from
+            Word: {paragraphMappings.filter((m) => m.outcome === "missingFromWord").length} | Split:{" "}
+            {paragraphMappings.filter((m) => m.outcome === "split").length} | Merged:{" "}
+            {paragraphMappings.filter((m) => m.outcome === "merged").length}
+          </div>
+          {paragraphMappings
+            .filter((m) => m.strategy !== "paraId")
+            .map((m) => (
+              <div
+                key={`${m.outcome}-${m.paragraphNumbers.join("_")}-${m.wordParagraphIndexes.join("_")}`}
+                style={{ color: m.outcome === "matched" ? "#8a6d00" : "#d13438" }}
+              >
+                {describeMapping(m)}
+              </div>
+            ))}
+        </div>
+      )}
 
       {isReviewActive && corrections.length > 0 && (
         <div className="ms-welcome__features">
           <h3>Correction Suggestions</h3>
-          
+          <button
+            style={focusMode ? primaryButtonStyle : buttonStyle}
+            onClick={() => setFocusMode(!focusMode)}
+          >
+            🎯 {focusMode ? "Show list" : "Review one at a time"}
+          </button>
+
           {/* Progress Summary */}
-          <div style={{ marginBottom: '15px', padding: '10px', backgroundColor: '#f3f2f1', borderRadius: '4px' }}>
-            <div><strong>Total Corrections:</strong> {corrections.length}</div>
-            <div style={{ fontSize: '12px', color: '#666' }}>
-              Applied: {corrections.filter(c => c.status === 'applied').length} | 
-              Rejected: {corrections.filter(c => c.status === 'rejected').length} | 
-              Pending: {corrections.filter(c => c.status === 'pending').length}
+          <div
+            style={{
+              marginBottom: "15px",
+              padding: "10px",
+              backgroundColor: "#f3f2f1",
+              borderRadius: "4px",
+            }}
+          >
+            <div>
+              <strong>Total Corrections:</strong> {corrections.length}
+            </div>
+            <div style={{ fontSize: "12px", color: "#666" }}>
+              Applied: {corrections.filter((c) => c.status === "applied").length} | Rejected:{" "}
+              {corrections.filter((c) => c.status === "rejected").length} | Pending:{" "}
+              {corrections.filter((c) => c.status === "pending").length}
             </div>
           </div>
 
-          {/* All Corrections List */}
-          <div style={{ maxHeight: '400px', overflowY: 'auto', border: '1px solid #ddd', borderRadius: '4px' }}>
-            {corrections.map((correction, index) => {
-              const isAnimating = animatingCorrections.has(correction.id);
-              const isProcessed = correction.status === 'applied' || correction.status === 'rejected';
-              
-              return (
-                <div 
-                  key={correction.id} 
-                  style={{ 
-                    padding: '12px', 
-                    borderBottom: index < corrections.length - 1 ? '1px solid #eee' : 'none',
-                    backgroundColor: correction.status === 'applied' ? '#f0f8f0' : 
-                                   correction.status === 'rejected' ? '#fdf2f2' : 
-                                   correction.status === 'skipped' ? '#f8f8f8' : 'white',
-                    transition: 'all 0.3s ease-in-out',
-                    opacity: isAnimating ? 0.3 : (isProcessed ? 0.6 : 1),
-                    transform: isAnimating ? 'scale(0.95)' : 'scale(1)',
-                    maxHeight: isProcessed && !isAnimating ? '0px' : '200px',
-                    overflow: 'hidden',
-                    marginBottom: isProcessed && !isAnimating ? '0px' : '4px',
-                    paddingTop: isProcessed && !isAnimating ? '0px' : '12px',
-                    paddingBottom: isProcessed && !isAnimating ? '0px' : '12px',
-                    filter: isProcessed ? 'grayscale(50%)' : 'none'
-                  }}
+          {focusMode ? (
+            <FocusedReview
+              correction={currentCorrection}
+              progress={reviewProgress}
+              shortcuts={shortcuts}
+              previewContext={previewContext}
+              onAction={handleReviewAction}
+              onShortcutsChange={handleShortcutsChange}
+            />
+          ) : (
+            <>
+              {/* Filters */}
+              <div
+                style={{
+                  marginBottom: "8px",
+                  display: "flex",
+                  flexWrap: "wrap",
+                  gap: "6px",
+                  alignItems: "center",
+                  fontSize: "12px",
+                }}
+              >
+                <input
+                  type="text"
+                  placeholder="Search changed text"
+                  value={correctionFilter.search || ""}
+                  onChange={(e) => updateCorrectionFilter({ search: e.target.value })}
+                  style={{ flex: "1 1 140px" }}
+                />
+                <select
+                  value={correctionFilter.changeType || ""}
+                  onChange={(e) =>
+                    updateCorrectionFilter({
+                      changeType: (e.target.value || undefined) as CorrectionFilter["changeType"],
+                    })
+                  }
                 >
-                {/* Error Header with Para ID and Offset */}
-                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
-                  <div style={{ fontSize: '12px', color: '#666' }}>
-                    <strong>Para {correction.paragraphNumber}</strong> • ID: {correction.wordNativeParaId} • {correction.errorType}
-                  </div>
-                  <div style={{ fontSize: '11px', color: '#999' }}>
-                    {correction.status === 'applied' ? '✅ Applied' :
-                     correction.status === 'rejected' ? '❌ Rejected' :
-                     correction.status === 'skipped' ? '⏭️ Skipped' : '⏳ Pending'}
-                  </div>
-                </div>
-
-                {/* Error Details with Offset */}
-                <div style={{ marginBottom: '8px', padding: '8px', backgroundColor: '#f8f9fa', borderRadius: '4px', border: '1px solid #e9ecef' }}>
-                  <div style={{ fontSize: '13px', fontWeight: 'bold', color: '#333', marginBottom: '4px' }}>
-                    {correction.suggestion}
-                  </div>
-                  <div style={{ fontSize: '11px', color: '#666', marginBottom: '4px' }}>
-                    <strong>Offset:</strong> {correction.startOffset}-{correction.endOffset} • <strong>Type:</strong> {correction.changeType}
-                  </div>
-                  <div style={{ fontSize: '12px', color: '#555' }}>
-                    {correction.actionDescription}
-                  </div>
+                  <option value="">All changes</option>
+                  <option value="addition">Addition</option>
+                  <option value="deletion">Deletion</option>
+                  <option value="modification">Modification</option>
+                  <option value="formatting">Formatting</option>
+                  <option value="style">Style</option>
+                </select>
+                <select
+                  value={correctionFilter.errorType || ""}
+                  onChange={(e) =>
+                    updateCorrectionFilter({
+                      errorType: (e.target.value || undefined) as CorrectionFilter["errorType"],
+                    })
+                  }
+                >
+                  <option value="">All error types</option>
+                  <option value="Missing">Missing</option>
+                  <option value="Extra">Extra</option>
+                  <option value="Modified">Modified</option>
+                  <option value="Formatting">Formatting</option>
+                  <option value="Style">Style</option>
+                </select>
+                <select
+                  value={correctionFilter.status || ""}
+                  onChange={(e) =>
+                    updateCorrectionFilter({
+                      status: (e.target.value || undefined) as CorrectionFilter["status"],
+                    })
+                  }
+                >
+                  <option value="">All statuses</option>
+                  <option value="pending">Pending</option>
+                  <option value="applied">Applied</option>
+                  <option value="rejected">Rejected</option>
+                  <option value="skipped">Skipped</option>
+                </select>
+                <span>
+                  Para{" "}
+                  <input
+                    type="number"
+                    min={1}
+                    value={correctionFilter.paragraphFrom ?? ""}
+                    onChange={(e) =>
+                      updateCorrectionFilter({
+                        paragraphFrom: e.target.value ? Number(e.target.value) : undefined,
+                      })
+                    }
+                    style={{ width: "50px" }}
+                  />{" "}
+                  to{" "}
+                  <input
+                    type="number"
+                    min={1}
+                    value={correctionFilter.paragraphTo ?? ""}
+                    onChange={(e) =>
+                      updateCorrectionFilter({
+                        paragraphTo: e.target.value ? Number(e.target.value) : undefined,
+                      })
+                    }
+                    style={{ width: "50px" }}
+                  />
+                </span>
+                <span>
+                  Context{" "}
+                  <input
+                    type="number"
+                    min={0}
+                    value={previewContext}
+                    onChange={(e) => setPreviewContext(Math.max(0, Number(e.target.value) || 0))}
+                    style={{ width: "50px" }}
+                  />
+                </span>
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={groupByParagraph}
+                    onChange={(e) => setGroupByParagraph(e.target.checked)}
+                  />{" "}
+                  Group by paragraph
+                </label>
+                {filterActive && (
+                  <button
+                    style={{ ...buttonStyle, padding: "2px 8px" }}
+                    onClick={() => setCorrectionFilter({})}
+                  >
+                    Clear filters
+                  </button>
+                )}
+              </div>
+              {filterActive && (
+                <div style={{ fontSize: "12px", color: "#666", marginBottom: "6px" }}>
+                  Showing {filteredCorrections.length} of {corrections.length} corrections
                 </div>
+              )}
 
-                {/* Action Buttons - Only show for pending corrections */}
-                {correction.status === 'pending' && (
-                  <div style={{ display: 'flex', gap: '6px' }}>
-                    <button
-                      style={{
-                        ...successButtonStyle,
-                        fontSize: '12px',
-                        padding: '4px 8px'
-                      }}
-                      onClick={() => handleApplySpecificCorrection(correction.id)}
-                    >
-                      ✅ Accept
-                    </button>
-                    <button
-                      style={{
-                        ...dangerButtonStyle,
-                        fontSize: '12px',
-                        padding: '4px 8px'
-                      }}
-                      onClick={() => handleRejectSpecificCorrection(correction.id)}
-                    >
-                      ❌ Reject
-                    </button>
-                  </div>
-                )}
+              {/* All Corrections List */}
+              <div
+                style={{
+                  maxHeight: "400px",
+                  overflowY: "auto",
+                  border: "1px solid #ddd",
+                  borderRadius: "4px",
+                }}
+              >
+                {groupByParagraph
+                  ? groupCorrectionsByParagraph(filteredCorrections).map((group) => {
+                      const isCollapsed = collapsedParagraphs.has(group.paragraphNumber);
+                      return (
+                        <div key={group.paragraphNumber}>
+                          <div
+                            style={{
+                              padding: "6px 12px",
+                              backgroundColor: "#f3f2f1",
+                              borderBottom: "1px solid #ddd",
+                              cursor: "pointer",
+                              fontSize: "12px",
+                            }}
+                            onClick={() => handleToggleParagraphGroup(group.paragraphNumber)}
+                          >
+                            {isCollapsed ? "▶" : "▼"} <strong>Para {group.paragraphNumber}</strong>{" "}
+                            • {group.wordNativeParaId} • {group.corrections.length} corrections (
+                            {group.counts.pending} pending, {group.counts.applied} applied,{" "}
+                            {group.counts.rejected} rejected)
+                          </div>
+                          {!isCollapsed && (
+                            <div style={{ padding: "8px 12px", borderBottom: "1px solid #eee" }}>
+                              <DiffPreview
+                                preview={previewParagraph(
+                                  group.corrections[0].origin
+                                    ? group.corrections[0].origin.text
+                                    : group.corrections[0].originalText,
+                                  group.corrections[0].correctedText,
+                                  previewContext
+                                )}
+                              />
+                            </div>
+                          )}
+                          {!isCollapsed &&
+                            group.corrections.map((correction, index) =>
+                              renderCorrectionCard(
+                                correction,
+                                index === group.corrections.length - 1
+                              )
+                            )}
+                        </div>
+                      );
+                    })
+                  : filteredCorrections.map((correction, index) =>
+                      renderCorrectionCard(correction, index === filteredCorrections.length - 1)
+                    )}
               </div>
-              );
-            })}
-          </div>
+            </>
+          )}
 
           {/* Bulk Actions */}
-          <div style={{ marginTop: '15px', display: 'flex', gap: '8px', justifyContent: 'center' }}>
+          <div style={{ marginTop: "15px", display: "flex", gap: "8px", justifyContent: "center" }}>
             <button
               style={successButtonStyle}
               onClick={handleApplyAllCorrections}
-              disabled={corrections.filter(c => c.status === 'pending').length === 0}
+              disabled={filteredPendingCount === 0}
             >
-              ✅ Accept All
+              ✅ {filterActive ? `Accept ${filteredPendingCount} Shown` : "Accept All"}
             </button>
             <button
               style={dangerButtonStyle}
               onClick={handleRejectAllCorrections}
-              disabled={corrections.filter(c => c.status === 'pending').length === 0}
+              disabled={filteredPendingCount === 0}
             >
-              ❌ Reject All
+              ❌ {filterActive ? `Reject ${filteredPendingCount} Shown` : "Reject All"}
             </button>
           </div>
+          <div style={{ marginTop: "8px", display: "flex", gap: "8px", justifyContent: "center" }}>
+            <button
+              style={buttonStyle}
+              onClick={handleUndo}
+              disabled={!historyLabels.undo}
+              title={historyLabels.undo ? `Undo: ${historyLabels.undo}` : undefined}
+            >
+              ↩️ Undo
+            </button>
+            <button
+              style={buttonStyle}
+              onClick={handleRedo}
+              disabled={!historyLabels.redo}
+              title={historyLabels.redo ? `Redo: ${historyLabels.redo}` : undefined}
+            >
+              ↪️ Redo
+            </button>
+          </div>
+          {exportControls}
         </div>
       )}
 
@@ -557,13 +1353,15 @@ const App: React.FC<{}> = () => {
       {isReviewActive && !currentCorrection && (
         <div className="ms-welcome__features">
           <h3>Review Complete!</h3>
-          <div style={{ padding: '15px', backgroundColor: '#f3f2f1', borderRadius: '4px' }}>
-            <div><strong>Final Statistics:</strong></div>
+          <div style={{ padding: "15px", backgroundColor: "#f3f2f1", borderRadius: "4px" }}>
+            <div>
+              <strong>Final Statistics:</strong>
+            </div>
             <div>Applied: {reviewProgress.applied}</div>
             <div>Rejected: {reviewProgress.rejected}</div>
             <div>Skipped: {reviewProgress.skipped}</div>
             {reviewProgress.skipped > 0 && (
-              <div style={{ marginTop: '10px', color: '#d13438' }}>
+              <div style={{ marginTop: "10px", color: "#d13438" }}>
                 Note: {reviewProgress.skipped} corrections were skipped and may need attention.
               </div>
             )}
@@ -0,0 +1,55 @@
+import * as React from "react";
+import { PreviewSegment, PreviewSides } from "../utils/diffPreview";
+
+interface DiffPreviewProps {
+  preview: PreviewSides;
+}
+
+const segmentStyles: { [kind: string]: React.CSSProperties } = {
+  context: {},
+  deleted: { backgroundColor: "#ffe6e6", color: "#a4262c", textDecoration: "line-through" },
+  inserted: { backgroundColor: "#e6f4e6", color: "#107c10", fontWeight: "bold" },
+  formatted: { backgroundColor: "#f0e6ff", color: "#5c2e91", fontWeight: "bold" },
+};
+
+const columnStyle: React.CSSProperties = {
+  flex: 1,
+  minWidth: 0,
+  padding: "6px",
+  backgroundColor: "white",
+  border: "1px solid #e9ecef",
+  borderRadius: "3px",
+  fontSize: "12px",
+  lineHeight: 1.5,
+  whiteSpace: "pre-wrap",
+  wordBreak: "break-word",
+};
+
+const renderSegments = (segments: PreviewSegment[]) =>
+  segments.map((segment, index) => (
+    <span key={index} style={segmentStyles[segment.kind]}>
+      {segment.text}
+    </span>
+  ));
+
+/**
+ * Side-by-side before/after text with inline delete/insert styling
+ */
+const DiffPreview: React.FC<DiffPreviewProps> = (props: DiffPreviewProps) => {
+  const { preview } = props;
+
+  return (
+    <div style={{ display: "flex", gap: "6px" }}>
+      <div style={columnStyle}>
+        <div style={{ fontSize: "10px", color: "#999", marginBottom: "2px" }}>BEFORE</div>
+        {renderSegments(preview.before)}
+      </div>
+      <div style={columnStyle}>
+        <div style={{ fontSize: "10px", color: "#999", marginBottom: "2px" }}>AFTER</div>
+        {renderSegments(preview.after)}
+      </div>
+    </div>
+  );
+};
+
+export default DiffPreview;
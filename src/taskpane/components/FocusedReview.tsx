@@ -0,0 +1,183 @@
+import * as React from "react";
+import { useState, useEffect } from "react";
+import { CorrectionObject } from "../utils/documentMapping";
+import { ReviewProgress } from "../utils/correctionReviewManager";
+import { previewCorrection } from "../utils/diffPreview";
+import DiffPreview from "./DiffPreview";
+import {
+  ReviewAction,
+  ShortcutMap,
+  REVIEW_ACTIONS,
+  REVIEW_ACTION_LABELS,
+  DEFAULT_SHORTCUTS,
+  describeKeyEvent,
+  findShortcutAction,
+  validateShortcuts,
+} from "../utils/reviewShortcuts";
+
+/* global HTMLElement, KeyboardEvent, window */
+
+interface FocusedReviewProps {
+  correction: CorrectionObject | null;
+  progress: ReviewProgress;
+  shortcuts: ShortcutMap;
+  previewContext: number;
+  onAction: (action: ReviewAction) => void;
+  onShortcutsChange: (shortcuts: ShortcutMap) => void;
+}
+
+const keyStyle = {
+  display: "inline-block",
+  padding: "1px 6px",
+  border: "1px solid #ccc",
+  borderRadius: "3px",
+  backgroundColor: "#f8f9fa",
+  fontFamily: "monospace",
+  fontSize: "11px",
+};
+
+/**
+ * One-at-a-time review of the manager's current correction, driven by keyboard shortcuts
+ */
+const FocusedReview: React.FC<FocusedReviewProps> = (props: FocusedReviewProps) => {
+  const { correction, progress, shortcuts, previewContext, onAction, onShortcutsChange } = props;
+  const [recordingAction, setRecordingAction] = useState<ReviewAction | null>(null);
+  const [shortcutError, setShortcutError] = useState<string>("");
+  const [showShortcutEditor, setShowShortcutEditor] = useState(false);
+
+  // Accept, reject and skip decide the current correction, so only a pending one - by button or key
+  const isActionDisabled = (action: ReviewAction) =>
+    ["accept", "reject", "skip"].indexOf(action) !== -1 &&
+    (!correction || correction.status !== "pending");
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const keyName = describeKeyEvent(event);
+      if (!keyName) return;
+
+      // Capture the next key press as the new shortcut for an action
+      if (recordingAction) {
+        event.preventDefault();
+        const updated = { ...shortcuts, [recordingAction]: keyName };
+        const validationError = validateShortcuts(updated);
+        setShortcutError(validationError || "");
+        if (!validationError) {
+          onShortcutsChange(updated);
+        }
+        setRecordingAction(null);
+        return;
+      }
+
+      // Leave typing in form fields alone
+      const target = event.target as HTMLElement | null;
+      if (target && ["INPUT", "TEXTAREA", "SELECT"].indexOf(target.tagName) !== -1) return;
+
+      const action = findShortcutAction(shortcuts, keyName);
+      if (action) {
+        event.preventDefault();
+        // A held key repeats; only the first press acts
+        if (!event.repeat && !isActionDisabled(action)) onAction(action);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [shortcuts, recordingAction, correction, onAction, onShortcutsChange]);
+
+  const actionButton = (action: ReviewAction) => (
+    <button
+      key={action}
+      style={{
+        padding: "6px 10px",
+        margin: "2px",
+        borderRadius: "4px",
+        border: "1px solid #ccc",
+        cursor: "pointer",
+      }}
+      onClick={() => onAction(action)}
+      disabled={isActionDisabled(action)}
+    >
+      {REVIEW_ACTION_LABELS[action]} <span style={keyStyle}>{shortcuts[action]}</span>
+    </button>
+  );
+
+  return (
+    <div style={{ border: "1px solid #ddd", borderRadius: "4px", padding: "12px" }}>
+      <div style={{ fontSize: "12px", color: "#666", marginBottom: "8px" }}>
+        Correction {progress.current} of {progress.total} • {progress.pending} pending
+      </div>
+
+      {correction ? (
+        <div>
+          <div style={{ fontSize: "12px", color: "#666" }}>
+            <strong>Para {correction.paragraphNumber}</strong> • ID: {correction.wordNativeParaId} •{" "}
+            {correction.errorType} • {correction.status}
+          </div>
+          <div style={{ fontSize: "16px", fontWeight: "bold", color: "#333", margin: "8px 0" }}>
+            {correction.suggestion}
+          </div>
+          <div style={{ fontSize: "12px", color: "#555", marginBottom: "8px" }}>
+            {correction.actionDescription}
+          </div>
+          <div style={{ marginBottom: "12px" }}>
+            <DiffPreview preview={previewCorrection(correction, previewContext)} />
+          </div>
+          <div>
+            {actionButton("accept")}
+            {actionButton("reject")}
+            {actionButton("skip")}
+          </div>
+        </div>
+      ) : (
+        <div style={{ fontSize: "13px", marginBottom: "12px" }}>No pending corrections left.</div>
+      )}
+
+      <div>
+        {actionButton("previous")}
+        {actionButton("next")}
+        {actionButton("undo")}
+      </div>
+
+      <div style={{ marginTop: "8px", fontSize: "12px" }}>
+        <a
+          href="#"
+          onClick={(e) => {
+            e.preventDefault();
+            setShowShortcutEditor(!showShortcutEditor);
+          }}
+        >
+          {showShortcutEditor ? "Hide shortcuts" : "Customize shortcuts"}
+        </a>
+      </div>
+      {showShortcutEditor && (
+        <div style={{ marginTop: "6px", fontSize: "12px" }}>
+          {REVIEW_ACTIONS.map((action) => (
+            <div
+              key={action}
+              style={{
+                display: "flex",
+                justifyContent: "space-between",
+                alignItems: "center",
+                margin: "2px 0",
+              }}
+            >
+              <span>{REVIEW_ACTION_LABELS[action]}</span>
+              <button style={{ minWidth: "110px" }} onClick={() => setRecordingAction(action)}>
+                {recordingAction === action ? "Press a key…" : shortcuts[action]}
+              </button>
+            </div>
+          ))}
+          {shortcutError && <div style={{ color: "red" }}>{shortcutError}</div>}
+          <button
+            style={{ marginTop: "4px" }}
+            onClick={() => onShortcutsChange({ ...DEFAULT_SHORTCUTS })}
+          >
+            Reset to defaults
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FocusedReview;
@@ -0,0 +1,247 @@
+/**
+ * Review audit report
+ * Lists every correction of a review session with its context and final decision,
+ * exportable as JSON, CSV or a self-contained HTML page
+ */
+
+import { CorrectionObject } from "./documentMapping";
+import { ReviewSource } from "./sessionPersistence";
+import { previewCorrection, previewText } from "./diffPreview";
+import { DiffGranularity } from "./textDiff";
+
+const CONTEXT_LENGTH = 40;
+
+/**
+ * One correction in the report
+ */
+export interface AuditEntry {
+  correctionId: string;
+  paragraphNumber: number;
+  wordNativeParaId: string;
+  changeType: CorrectionObject["changeType"];
+  errorType: CorrectionObject["errorType"];
+  suggestion: string;
+  diffText: string;
+  originStartOffset: number | null; // Span in the Word paragraph the correction was generated against
+  originEndOffset: number | null;
+  before: string; // Text around the change as it was
+  after: string; // The same text with the change applied
+  status: CorrectionObject["status"];
+  decidedAt: string | null;
+}
+
+export interface AuditReport {
+  generatedAt: string;
+  reviewStartedAt: string | null;
+  applyMode: string | null;
+  source: ReviewSource | null;
+  granularity: DiffGranularity | null; // Diff unit of the corrections; correction IDs are only stable within one
+  summary: { total: number; applied: number; rejected: number; skipped: number; pending: number };
+  entries: AuditEntry[];
+}
+
+export interface AuditReportMeta {
+  reviewStartedAt?: Date | null;
+  applyMode?: string | null;
+  source?: ReviewSource | null;
+  granularity?: DiffGranularity | null;
+}
+
+export type AuditReportFormat = "json" | "csv" | "html";
+
+/**
+ * The correction as it was found. Applying a sibling rebases originalText and the offsets;
+ * origin keeps the paragraph text and span the correction was generated against.
+ */
+function asFound(correction: CorrectionObject): CorrectionObject {
+  const origin = correction.origin;
+  if (!origin) return correction;
+  return {
+    ...correction,
+    originalText: origin.text,
+    startOffset: origin.startOffset,
+    endOffset: origin.endOffset,
+  };
+}
+
+/**
+ * Build the audit report for a set of reviewed corrections.
+ * Context comes from each correction's origin, like the reconciled JSON export.
+ */
+export function buildAuditReport(
+  corrections: CorrectionObject[],
+  meta: AuditReportMeta = {}
+): AuditReport {
+  const entries = corrections.map((correction) => {
+    const preview = previewCorrection(asFound(correction), CONTEXT_LENGTH);
+    const before = previewText(preview.before);
+    const after = previewText(preview.after);
+    return {
+      correctionId: correction.id,
+      paragraphNumber: correction.paragraphNumber,
+      wordNativeParaId: correction.wordNativeParaId,
+      changeType: correction.changeType,
+      errorType: correction.errorType,
+      suggestion: correction.suggestion,
+      diffText: correction.diffText,
+      originStartOffset: correction.origin ? correction.origin.startOffset : null,
+      originEndOffset: correction.origin ? correction.origin.endOffset : null,
+      before,
+      after,
+      status: correction.status,
+      decidedAt: correction.decidedAt || null,
+    };
+  });
+
+  const count = (status: CorrectionObject["status"]) =>
+    entries.filter((e) => e.status === status).length;
+
+  return {
+    generatedAt: new Date().toISOString(),
+    reviewStartedAt: meta.reviewStartedAt ? meta.reviewStartedAt.toISOString() : null,
+    applyMode: meta.applyMode || null,
+    source: meta.source || null,
+    granularity: meta.granularity || null,
+    summary: {
+      total: entries.length,
+      applied: count("applied"),
+      rejected: count("rejected"),
+      skipped: count("skipped"),
+      pending: count("pending"),
+    },
+    entries,
+  };
+}
+
+const CSV_COLUMNS: (keyof AuditEntry)[] = [
+  "paragraphNumber",
+  "wordNativeParaId",
+  "correctionId",
+  "changeType",
+  "errorType",
+  "suggestion",
+  "before",
+  "after",
+  "status",
+  "decidedAt",
+];
+
+function csvField(value: any): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Machine-readable JSON
+ */
+export function auditReportToJson(report: AuditReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+/**
+ * CSV with one row per correction, for spreadsheets
+ */
+export function auditReportToCsv(report: AuditReport): string {
+  const rows = [CSV_COLUMNS.join(",")];
+  report.entries.forEach((entry) => {
+    rows.push(CSV_COLUMNS.map((column) => csvField(entry[column])).join(","));
+  });
+  return rows.join("\r\n") + "\r\n";
+}
+
+/**
+ * Self-contained HTML page with inline styles and no scripts
+ */
+export function auditReportToHtml(report: AuditReport): string {
+  const title =
+    report.source && report.source.documentTitle
+      ? `Review report: ${report.source.documentTitle}`
+      : "Review report";
+
+  const rows = report.entries
+    .map(
+      (entry) => `
+      <tr class="${entry.status}">
+        <td>${entry.paragraphNumber}</td>
+        <td>${escapeHtml(entry.wordNativeParaId)}</td>
+        <td>${escapeHtml(entry.errorType)}</td>
+        <td>${escapeHtml(entry.suggestion)}</td>
+        <td class="context">${escapeHtml(entry.before)}</td>
+        <td class="context">${escapeHtml(entry.after)}</td>
+        <td class="status">${entry.status}</td>
+        <td>${entry.decidedAt ? escapeHtml(new Date(entry.decidedAt).toLocaleString()) : ""}</td>
+      </tr>`
+    )
+    .join("");
+
+  const { summary } = report;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <title>${escapeHtml(title)}</title>
+    <style>
+        body { font-family: Arial, sans-serif; margin: 20px; }
+        .summary { margin: 20px 0; padding: 15px; border: 1px solid #ccc; border-radius: 5px; }
+        table { border-collapse: collapse; width: 100%; font-size: 13px; }
+        th, td { border: 1px solid #ddd; padding: 6px; text-align: left; vertical-align: top; }
+        th { background: #f5f5f5; }
+        .context { font-family: monospace; white-space: pre-wrap; }
+        .applied .status { color: green; font-weight: bold; }
+        .rejected .status { color: red; font-weight: bold; }
+        .skipped .status, .pending .status { color: #8a6d00; font-weight: bold; }
+    </style>
+</head>
+<body>
+    <h1>${escapeHtml(title)}</h1>
+    <div class="summary">
+        <div><strong>Generated:</strong> ${escapeHtml(new Date(report.generatedAt).toLocaleString())}</div>
+        ${report.reviewStartedAt ? `<div><strong>Review started:</strong> ${escapeHtml(new Date(report.reviewStartedAt).toLocaleString())}</div>` : ""}
+        ${report.source && report.source.documentId !== null ? `<div><strong>Document ID:</strong> ${report.source.documentId}</div>` : ""}
+        ${report.applyMode ? `<div><strong>Applied as:</strong> ${escapeHtml(report.applyMode)}</div>` : ""}
+        <div><strong>Total:</strong> ${summary.total} | Applied: ${summary.applied} | Rejected: ${summary.rejected} | Skipped: ${summary.skipped} | Pending: ${summary.pending}</div>
+    </div>
+    <table>
+        <thead>
+            <tr>
+                <th>Para</th><th>Para ID</th><th>Error type</th><th>Suggestion</th>
+                <th>Before</th><th>After</th><th>Status</th><th>Decided</th>
+            </tr>
+        </thead>
+        <tbody>${rows}
+        </tbody>
+    </table>
+</body>
+</html>
+`;
+}
+
+/**
+ * Serialize a report in the requested format, with a matching file extension and MIME type
+ */
+export function formatAuditReport(
+  report: AuditReport,
+  format: AuditReportFormat
+): { content: string; extension: string; mimeType: string } {
+  switch (format) {
+    case "csv":
+      return { content: auditReportToCsv(report), extension: "csv", mimeType: "text/csv" };
+    case "html":
+      return { content: auditReportToHtml(report), extension: "html", mimeType: "text/html" };
+    default:
+      return {
+        content: auditReportToJson(report),
+        extension: "json",
+        mimeType: "application/json",
+      };
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Filtering and grouping of the correction list in the task pane
+ */
+
+import { CorrectionObject } from "./documentMapping";
+
+/**
+ * Active filters; an unset field matches every correction
+ */
+export interface CorrectionFilter {
+  changeType?: CorrectionObject["changeType"];
+  errorType?: CorrectionObject["errorType"];
+  status?: CorrectionObject["status"];
+  paragraphFrom?: number;
+  paragraphTo?: number;
+  search?: string; // Case-insensitive match on diffText (and the replacement text of modifications)
+}
+
+/**
+ * Corrections of one paragraph with per-status counts
+ */
+export interface ParagraphGroup {
+  paragraphNumber: number;
+  wordNativeParaId: string;
+  corrections: CorrectionObject[];
+  counts: { pending: number; applied: number; rejected: number; skipped: number };
+}
+
+/**
+ * Check whether a correction passes the filter
+ */
+export function matchesFilter(correction: CorrectionObject, filter: CorrectionFilter): boolean {
+  if (filter.changeType && correction.changeType !== filter.changeType) return false;
+  if (filter.errorType && correction.errorType !== filter.errorType) return false;
+  if (filter.status && correction.status !== filter.status) return false;
+  if (filter.paragraphFrom !== undefined && correction.paragraphNumber < filter.paragraphFrom)
+    return false;
+  if (filter.paragraphTo !== undefined && correction.paragraphNumber > filter.paragraphTo)
+    return false;
+
+  const search = (filter.search || "").trim().toLowerCase();
+  if (search) {
+    const haystack = `${correction.diffText}\n${correction.replacementText || ""}`.toLowerCase();
+    if (haystack.indexOf(search) === -1) return false;
+  }
+  return true;
+}
+
+/**
+ * Corrections that pass the filter, in their original order
+ */
+export function filterCorrections(
+  corrections: CorrectionObject[],
+  filter: CorrectionFilter
+): CorrectionObject[] {
+  return corrections.filter((correction) => matchesFilter(correction, filter));
+}
+
+/**
+ * Check whether any filter is set
+ */
+export function isFilterActive(filter: CorrectionFilter): boolean {
+  return !!(
+    filter.changeType ||
+    filter.errorType ||
+    filter.status ||
+    filter.paragraphFrom !== undefined ||
+    filter.paragraphTo !== undefined ||
+    (filter.search || "").trim()
+  );
+}
+
+/**
+ * Group corrections by paragraph, ordered by paragraph number
+ */
+export function groupCorrectionsByParagraph(corrections: CorrectionObject[]): ParagraphGroup[] {
+  const groups: { [paragraphNumber: number]: ParagraphGroup } = {};
+  const order: number[] = [];
+
+  corrections.forEach((correction) => {
+    let group = groups[correction.paragraphNumber];
+    if (!group) {
+      group = {
+        paragraphNumber: correction.paragraphNumber,
+        wordNativeParaId: correction.wordNativeParaId,
+        corrections: [],
+        counts: { pending: 0, applied: 0, rejected: 0, skipped: 0 },
+      };
+      groups[correction.paragraphNumber] = group;
+      order.push(correction.paragraphNumber);
+    }
+    group.corrections.push(correction);
+    group.counts[correction.status]++;
+  });
+
+  return order.sort((a, b) => a - b).map((paragraphNumber) => groups[paragraphNumber]);
+}
@@ -3,7 +3,27 @@
  * Provides navigation, application, and tracking of corrections
  */
 
-import { CorrectionObject } from './documentMapping';
+import { CorrectionObject, buildParagraphIdIndex, findWordParagraphIndex } from "./documentMapping";
+import {
+  loadParagraphCharacters,
+  buildRangeForOffsets,
+  resolveCorrectionRange,
+  resolveCorrectionRanges,
+  ParagraphRangeGroup,
+  RANGE_BATCH_SIZE,
+  readWordParagraphIds,
+} from "./wordAdapter";
+import { TextEdit, rebaseSiblingCorrections, isSameParagraph } from "./offsetTransform";
+import { ReviewHistory, ReviewHistoryStep, AppliedEdit } from "./reviewHistory";
+import {
+  ReviewSource,
+  PersistedReviewSession,
+  PERSISTED_SESSION_VERSION,
+  writePersistedSession,
+  clearPersistedSession,
+} from "./sessionPersistence";
+import { StartupOptions, ReviewCancelledError } from "./startupProgress";
+import { DiffGranularity } from "./textDiff";
 
 export interface ReviewProgress {
   current: number;
@@ -14,34 +34,218 @@ export interface ReviewProgress {
   pending: number;
 }
 
+/**
+ * How accepted corrections are written into the document:
+ * - trackedChanges: real deletes/inserts/replacements recorded as Word revisions
+ * - formatting: legacy preview style (colored, bold, strikethrough) without removing text
+ */
+export type ApplyMode = "trackedChanges" | "formatting";
+
+export interface ReviewOptions extends StartupOptions {
+  applyMode?: ApplyMode;
+  source?: ReviewSource; // Identity of the pipeline JSON, stored with the persisted session
+  granularity?: DiffGranularity; // Diff unit the corrections were generated with
+}
+
+/**
+ * Outcome and cost of marking the corrections in the document
+ */
+export interface HighlightReport {
+  marked: number; // Marked at their exact span
+  fallback: number; // Marked by text search or on the whole paragraph
+  failed: number;
+  roundTrips: number; // context.sync() calls
+  elapsedMs: number;
+}
+
 export interface ReviewSession {
   corrections: CorrectionObject[];
   currentIndex: number;
   isActive: boolean;
   startTime: Date;
+  applyMode: ApplyMode;
+  paragraphIdIndex: { [paraId: string]: number }; // Native paragraph ID -> Word paragraph index
+  previousTrackingMode?: Word.ChangeTrackingMode | "Off" | "TrackAll" | "TrackMineOnly";
+  source: ReviewSource | null;
+  granularity: DiffGranularity | null;
+}
+
+/**
+ * When a session started and how its corrections were generated and applied, for reports
+ */
+export interface ReviewSessionInfo {
+  startTime: Date;
+  applyMode: ApplyMode;
+  source: ReviewSource | null;
+  granularity: DiffGranularity | null;
+}
+
+/**
+ * Preview marks are content controls tagged with this prefix and the correction ID.
+ * The control's own border carries the color, so the text's formatting is never touched
+ * and deleting the control (keeping its content) leaves the document as it was.
+ */
+const PREVIEW_TAG_PREFIX = "correction_";
+
+const PREVIEW_COLORS: { [changeType in CorrectionObject["changeType"]]: string } = {
+  deletion: "#D13438",
+  addition: "#107C10",
+  modification: "#0078D4",
+  formatting: "#8764B8",
+  style: "#8764B8",
+};
+
+const FALLBACK_PREVIEW_COLOR = "#CA5010";
+
+/**
+ * Font properties an accepted correction can change, restored by undo
+ */
+const UNDO_FONT_PROPERTIES: (
+  | "bold"
+  | "italic"
+  | "underline"
+  | "strikeThrough"
+  | "superscript"
+  | "subscript"
+  | "color"
+  | "highlightColor"
+)[] = [
+  "bold",
+  "italic",
+  "underline",
+  "strikeThrough",
+  "superscript",
+  "subscript",
+  "color",
+  "highlightColor",
+];
+
+/**
+ * Span to mark for a correction. A collapsed insertion point can't hold a content control,
+ * so additions mark the neighbouring characters instead.
+ */
+function previewSpan(correction: CorrectionObject): [number, number] | null {
+  if (correction.changeType !== "addition") {
+    return [correction.startOffset, correction.endOffset];
+  }
+  const contextStart = Math.max(0, correction.startOffset - 1);
+  const contextEnd = Math.min(correction.originalText.length, correction.startOffset + 1);
+  return contextEnd > contextStart ? [contextStart, contextEnd] : null;
 }
 
 export class CorrectionReviewManager {
   private session: ReviewSession | null = null;
+  private history = new ReviewHistory();
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastHighlightReport: HighlightReport | null = null;
+  private applying = new Set<string>(); // IDs of corrections whose Word edit is in flight
   private onProgressUpdate?: (progress: ReviewProgress) => void;
   private onCorrectionChange?: (correction: CorrectionObject | null) => void;
 
   /**
-   * Initialize a new review session with corrections and preview highlighting
+   * Initialize a new review session with corrections and preview highlighting.
+   * If the startup is cancelled, the marks inserted so far are removed and ReviewCancelledError is thrown.
    */
-  async startReview(corrections: CorrectionObject[]): Promise<void> {
+  async startReview(corrections: CorrectionObject[], options: ReviewOptions = {}): Promise<void> {
     this.session = {
-      corrections: corrections.map(c => ({ ...c })), // Deep copy
+      corrections: corrections.map((c) => ({ ...c })), // Deep copy
       currentIndex: 0,
       isActive: true,
-      startTime: new Date()
+      startTime: new Date(),
+      applyMode: options.applyMode || "trackedChanges",
+      paragraphIdIndex: {},
+      source: options.source || null,
+      granularity: options.granularity || null,
+    };
+    this.history.clear();
+
+    console.log(
+      `🚀 Started review session with ${corrections.length} corrections (apply mode: ${this.session.applyMode})`
+    );
+
+    try {
+      await this.loadParagraphIdIndex();
+
+      if (this.session.applyMode === "trackedChanges") {
+        await this.enableChangeTracking();
+      }
+      if (options.cancellation) options.cancellation.throwIfCancelled();
+
+      // Highlight all corrections in Word document for preview
+      await this.highlightAllCorrections(options);
+    } catch (error) {
+      if (error instanceof ReviewCancelledError) {
+        await this.abandonSession();
+      }
+      throw error;
+    }
+
+    this.notifyProgressUpdate();
+    this.notifyCurrentCorrectionChange();
+  }
+
+  /**
+   * Resume a session saved in the document, with all decisions intact.
+   * The corrections are regenerated from the session's pipeline JSON (with fromJsonOriginal)
+   * and the saved state is laid over them; only missing highlights of pending corrections
+   * are restored.
+   */
+  async resumeReview(
+    persisted: PersistedReviewSession,
+    regenerated: CorrectionObject[]
+  ): Promise<void> {
+    const regeneratedById: { [id: string]: CorrectionObject } = {};
+    regenerated.forEach((correction) => {
+      regeneratedById[correction.id] = correction;
+    });
+    const corrections: CorrectionObject[] = [];
+    persisted.corrections.forEach((state) => {
+      const correction = regeneratedById[state.id];
+      if (!correction) {
+        console.warn(
+          `⚠️ Saved correction ${state.id} was not regenerated from the JSON - it is left out`
+        );
+        return;
+      }
+      corrections.push({
+        ...correction,
+        status: state.status,
+        decidedAt: state.decidedAt,
+        startOffset: state.startOffset,
+        endOffset: state.endOffset,
+      });
+    });
+
+    this.session = {
+      corrections,
+      currentIndex: Math.min(persisted.currentIndex, Math.max(0, corrections.length - 1)),
+      isActive: true,
+      startTime: new Date(persisted.startTime),
+      applyMode: persisted.applyMode,
+      paragraphIdIndex: {},
+      source: persisted.source,
+      granularity: persisted.granularity || null,
     };
+    this.history.clear();
+
+    console.log(
+      `⏯️ Resuming review session from ${persisted.savedAt} with ${corrections.length} corrections`
+    );
+
+    await this.loadParagraphIdIndex();
+    await this.loadEditedParagraphTexts();
+
+    if (this.session.applyMode === "trackedChanges") {
+      await this.enableChangeTracking();
+      // The document may still be in our tracking mode, so keep the mode from before the original start
+      if (persisted.previousTrackingMode) {
+        this.session.previousTrackingMode =
+          persisted.previousTrackingMode as Word.ChangeTrackingMode;
+      }
+    }
 
-    console.log(`🚀 Started review session with ${corrections.length} corrections`);
-    
-    // Highlight all corrections in Word document for preview
     await this.highlightAllCorrections();
-    
+
     this.notifyProgressUpdate();
     this.notifyCurrentCorrectionChange();
   }
@@ -61,43 +265,15 @@ export class CorrectionReviewManager {
    */
   async applyCurrentCorrection(): Promise<boolean> {
     const current = this.getCurrentCorrection();
-    if (!current || !current.wordRange) {
+    if (!current) {
       return false;
     }
 
-    try {
-      await Word.run(async context => {
-        // Apply the correction by replacing text in the Word range
-        if (current.changeType === 'addition') {
-          // Insert the new text
-          current.wordRange!.insertText(current.diffText, Word.InsertLocation.end);
-        } else if (current.changeType === 'deletion') {
-          // Remove the text (find and delete specific text)
-          const searchResults = current.wordRange!.search(current.diffText);
-          searchResults.load('items');
-          await context.sync();
-          
-          if (searchResults.items.length > 0) {
-            searchResults.items[0].delete();
-          }
-        } else if (current.changeType === 'modification') {
-          // Replace the entire range with corrected text
-          current.wordRange!.insertText(current.correctedText, Word.InsertLocation.replace);
-        }
-
-        await context.sync();
-      });
-
-      // Update correction status
-      current.status = 'applied';
-      console.log(`Applied correction: ${current.changeType} "${current.diffText}"`);
-      
+    const applied = await this.applySpecificCorrection(current.id);
+    if (applied) {
       this.moveToNext();
-      return true;
-    } catch (error) {
-      console.error('Error applying correction:', error);
-      return false;
     }
+    return applied;
   }
 
   /**
@@ -105,8 +281,11 @@ export class CorrectionReviewManager {
    */
   rejectCurrentCorrection(): void {
     const current = this.getCurrentCorrection();
-    if (current) {
-      current.status = 'rejected';
+    if (current && current.status === "pending") {
+      const correctionsBefore = [this.snapshotCorrection(current)];
+      current.status = "rejected";
+      current.decidedAt = new Date().toISOString();
+      this.recordHistory(`Reject ${current.suggestion}`, current, correctionsBefore, null);
       console.log(`Rejected correction: ${current.changeType} "${current.diffText}"`);
       this.moveToNext();
     }
@@ -117,8 +296,9 @@ export class CorrectionReviewManager {
    */
   skipCurrentCorrection(): void {
     const current = this.getCurrentCorrection();
-    if (current) {
-      current.status = 'skipped';
+    if (current && current.status === "pending") {
+      current.status = "skipped";
+      current.decidedAt = new Date().toISOString();
       console.log(`Skipped correction: ${current.changeType} "${current.diffText}"`);
       this.moveToNext();
     }
@@ -165,15 +345,18 @@ export class CorrectionReviewManager {
       return { current: 0, total: 0, applied: 0, rejected: 0, skipped: 0, pending: 0 };
     }
 
-    const stats = this.session.corrections.reduce((acc, correction) => {
-      acc[correction.status]++;
-      return acc;
-    }, { applied: 0, rejected: 0, skipped: 0, pending: 0 } as any);
+    const stats = this.session.corrections.reduce(
+      (acc, correction) => {
+        acc[correction.status]++;
+        return acc;
+      },
+      { applied: 0, rejected: 0, skipped: 0, pending: 0 } as any
+    );
 
     return {
-      current: this.session.currentIndex + 1,
+      current: Math.min(this.session.currentIndex + 1, this.session.corrections.length),
       total: this.session.corrections.length,
-      ...stats
+      ...stats,
     };
   }
 
@@ -182,7 +365,7 @@ export class CorrectionReviewManager {
    */
   isReviewComplete(): boolean {
     if (!this.session) return false;
-    
+
     const progress = this.getProgress();
     return progress.pending === 0;
   }
@@ -192,16 +375,82 @@ export class CorrectionReviewManager {
    */
   getSkippedCorrections(): CorrectionObject[] {
     if (!this.session) return [];
-    return this.session.corrections.filter(c => c.status === 'skipped');
+    return this.session.corrections.filter((c) => c.status === "skipped");
+  }
+
+  /**
+   * Get the identity of the pipeline JSON the session was created from
+   */
+  getSource(): ReviewSource | null {
+    return this.session ? this.session.source : null;
+  }
+
+  /**
+   * Get when the session started and how corrections are applied, for reports
+   */
+  getSessionInfo(): ReviewSessionInfo | null {
+    if (!this.session) return null;
+    return {
+      startTime: this.session.startTime,
+      applyMode: this.session.applyMode,
+      source: this.session.source,
+      granularity: this.session.granularity,
+    };
   }
 
   /**
-   * End the current review session
+   * Get a copy of the session's corrections with their current status
    */
-  endReview(): ReviewProgress {
+  getCorrections(): CorrectionObject[] {
+    return this.session ? this.session.corrections.map((c) => ({ ...c })) : [];
+  }
+
+  /**
+   * Drop a session whose startup was cancelled: remove the marks inserted so far and restore change tracking
+   */
+  private async abandonSession(): Promise<void> {
+    if (!this.session) return;
+    console.log("🛑 Review startup cancelled - removing partial preview marks");
+    await this.removeAllHighlights();
+    if (this.session.applyMode === "trackedChanges") {
+      await this.restoreChangeTracking(this.session.previousTrackingMode);
+    }
+    this.session = null;
+    this.history.clear();
+  }
+
+  /**
+   * Get the apply mode of the active session
+   */
+  getApplyMode(): ApplyMode | null {
+    return this.session ? this.session.applyMode : null;
+  }
+
+  /**
+   * End the current review session, remove the preview marks and restore the document's change tracking mode
+   */
+  async endReview(): Promise<ReviewProgress> {
     const finalProgress = this.getProgress();
-    console.log('Review session ended:', finalProgress);
+    console.log("Review session ended:", finalProgress);
+    if (this.session) {
+      await this.removeAllHighlights();
+    }
+    if (this.session && this.session.applyMode === "trackedChanges") {
+      await this.restoreChangeTracking(this.session.previousTrackingMode);
+    }
     this.session = null;
+    this.history.clear();
+
+    // The review is finished, so it should no longer be offered for resuming
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    try {
+      await clearPersistedSession();
+    } catch (error) {
+      console.warn("⚠️ Could not remove saved review session from document:", error);
+    }
     return finalProgress;
   }
 
@@ -220,15 +469,38 @@ export class CorrectionReviewManager {
   }
 
   /**
-   * Highlight all corrections in the Word document for preview
+   * Give the corrections of every paragraph with applied edits the paragraph's current text.
+   * Regenerated corrections expect the text as first found, which those edits changed.
    */
-  private async highlightAllCorrections(): Promise<void> {
-    if (!this.session) {
-      console.log(`❌ No session available for highlighting`);
-      return;
-    }
+  private async loadEditedParagraphTexts(): Promise<void> {
+    if (!this.session) return;
+    const session = this.session;
+    const applied = session.corrections.filter((c) => c.status === "applied");
+    if (applied.length === 0) return;
+
+    await Word.run(async (context) => {
+      const paragraphs = context.document.body.paragraphs;
+      paragraphs.load("items/text");
+      await context.sync();
+
+      applied.forEach((correction) => {
+        const wordParagraph = this.getWordParagraph(paragraphs, correction);
+        if (!wordParagraph) return;
+        const text = wordParagraph.text.trim();
+        session.corrections
+          .filter((c) => isSameParagraph(c, correction))
+          .forEach((c) => {
+            c.originalText = text;
+          });
+      });
+    });
+  }
 
-    console.log(`🎨 Highlighting ${this.session.corrections.length} corrections in Word document...`);
+  /**
+   * Read native paragraph IDs once so corrections resolve to their paragraph by ID, not position
+   */
+  private async loadParagraphIdIndex(): Promise<void> {
+    if (!this.session) return;
 
     try {
       await Word.run(async (context) => {
@@ -236,290 +508,395 @@ export class CorrectionReviewManager {
         paragraphs.load("items");
         await context.sync();
 
-        for (const correction of this.session.corrections) {
-          try {
-            await this.highlightSingleCorrection(context, paragraphs, correction);
-          } catch (error) {
-            console.warn(`⚠️ Failed to highlight correction ${correction.id}:`, error);
-          }
-        }
-
-        console.log(`✅ Successfully highlighted all corrections`);
+        this.session!.paragraphIdIndex = buildParagraphIdIndex(
+          await readWordParagraphIds(context, paragraphs)
+        );
+        console.log(
+          `🆔 Indexed ${Object.keys(this.session!.paragraphIdIndex).length} native paragraph IDs`
+        );
       });
     } catch (error) {
-      console.error('❌ Error highlighting corrections:', error);
+      console.warn(
+        "⚠️ Could not read native paragraph IDs - falling back to paragraph indexes:",
+        error
+      );
     }
   }
 
   /**
-   * Highlight a single correction using precise character offset positioning
+   * Locate the Word paragraph a correction belongs to
    */
-  private async highlightSingleCorrection(
-    context: Word.RequestContext,
+  private getWordParagraph(
     paragraphs: Word.ParagraphCollection,
     correction: CorrectionObject
+  ): Word.Paragraph | null {
+    const paragraphIndex = findWordParagraphIndex(
+      this.session ? this.session.paragraphIdIndex : {},
+      correction,
+      paragraphs.items.length
+    );
+    return paragraphIndex === null ? null : paragraphs.items[paragraphIndex];
+  }
+
+  /**
+   * Turn on change tracking for the duration of the session so that every
+   * applied correction becomes a revision the author can accept or reject.
+   * Falls back to formatting mode when the host lacks WordApi 1.4.
+   */
+  private async enableChangeTracking(): Promise<void> {
+    if (!this.session) return;
+
+    if (!Office.context.requirements.isSetSupported("WordApi", "1.4")) {
+      console.warn(
+        "⚠️ Change tracking requires WordApi 1.4 - falling back to formatting apply mode"
+      );
+      this.session.applyMode = "formatting";
+      return;
+    }
+
+    try {
+      await Word.run(async (context) => {
+        const document = context.document;
+        document.load("changeTrackingMode");
+        await context.sync();
+
+        this.session!.previousTrackingMode = document.changeTrackingMode;
+        document.changeTrackingMode = Word.ChangeTrackingMode.trackAll;
+        await context.sync();
+        console.log(`📝 Change tracking enabled (was: ${this.session!.previousTrackingMode})`);
+      });
+    } catch (error) {
+      console.error(
+        "❌ Could not enable change tracking - falling back to formatting apply mode:",
+        error
+      );
+      this.session.applyMode = "formatting";
+    }
+  }
+
+  /**
+   * Restore the change tracking mode the document had before the session started
+   */
+  private async restoreChangeTracking(
+    previousMode: Word.ChangeTrackingMode | "Off" | "TrackAll" | "TrackMineOnly" | undefined
   ): Promise<void> {
-    const paragraphIndex = correction.paragraphNumber - 1;
-    
-    if (paragraphIndex >= 0 && paragraphIndex < paragraphs.items.length) {
-      const wordParagraph = paragraphs.items[paragraphIndex];
-      wordParagraph.load('text');
-      await context.sync();
+    if (!previousMode) return;
 
-      const paragraphText = wordParagraph.text;
-      console.log(`🎯 Highlighting correction ${correction.id} at EXACT offset ${correction.startOffset}-${correction.endOffset}:`);
-      console.log(`   Type: ${correction.changeType}, Text: "${correction.diffText}"`);
-      console.log(`   Paragraph text length: ${paragraphText.length}`);
-      console.log(`   Text at offset: "${paragraphText.substring(correction.startOffset, correction.endOffset)}"`);
+    try {
+      await Word.run(async (context) => {
+        context.document.changeTrackingMode = previousMode;
+        await context.sync();
+        console.log(`📝 Change tracking restored to: ${previousMode}`);
+      });
+    } catch (error) {
+      console.error("❌ Error restoring change tracking mode:", error);
+    }
+  }
 
-      try {
-        let targetRange: Word.Range | null = null;
-        let highlightColor = '';
-        
-        // Use precise character offset positioning with Word API workaround
-        if (correction.changeType === 'deletion') {
-          // For deletions, get the exact text at the specified offset and search for it
-          if (correction.startOffset < paragraphText.length && correction.endOffset <= paragraphText.length && correction.startOffset < correction.endOffset) {
-            const exactTextToDelete = paragraphText.substring(correction.startOffset, correction.endOffset);
-            console.log(`📍 Deleting exact text at offset ${correction.startOffset}-${correction.endOffset}: "${exactTextToDelete}"`);
-            
-            // Create a precise search that finds the text at the correct position
-            // We'll search for a unique context that includes the text to delete
-            const contextBefore = paragraphText.substring(Math.max(0, correction.startOffset - 5), correction.startOffset);
-            const contextAfter = paragraphText.substring(correction.endOffset, Math.min(paragraphText.length, correction.endOffset + 5));
-            const searchPattern = contextBefore + exactTextToDelete + contextAfter;
-            
-            console.log(`   Context search pattern: "${searchPattern}"`);
-            
-            if (searchPattern.trim()) {
-              const searchResults = wordParagraph.search(searchPattern, { matchCase: false });
-              searchResults.load('items');
-              await context.sync();
-              
-              if (searchResults.items.length > 0) {
-                // Found the context, now create a range for just the text to delete
-                const contextRange = searchResults.items[0];
-                contextRange.load(['text']);
-                await context.sync();
-                
-                // Search within the context range for the exact text to delete
-                const deleteResults = contextRange.search(exactTextToDelete, { matchCase: false });
-                deleteResults.load('items');
-                await context.sync();
-                
-                if (deleteResults.items.length > 0) {
-                  targetRange = deleteResults.items[0];
-                  console.log(`   ✅ Found exact deletion target: "${targetRange.text}"`);
-                } else {
-                  // Fallback to the context range
-                  targetRange = contextRange;
-                }
-              }
-            }
-            
-            // Ultimate fallback: search for just the text to delete
-            if (!targetRange && exactTextToDelete.trim()) {
-              const searchResults = wordParagraph.search(exactTextToDelete, { matchCase: false });
-              searchResults.load('items');
-              await context.sync();
-              if (searchResults.items.length > 0) {
-                targetRange = searchResults.items[0];
-              }
-            }
-            
-            highlightColor = 'Pink';
-          }
-        } else if (correction.changeType === 'addition') {
-          // For additions, highlight context around the insertion point
-          const insertionPoint = Math.min(correction.startOffset, paragraphText.length);
-          console.log(`📍 Creating addition highlight around insertion point ${insertionPoint}`);
-          
-          // Get context around insertion point for highlighting
-          const contextStart = Math.max(0, insertionPoint - 3);
-          const contextEnd = Math.min(paragraphText.length, insertionPoint + 3);
-          
-          if (contextEnd > contextStart) {
-            const contextText = paragraphText.substring(contextStart, contextEnd);
-            console.log(`   Addition context: "${contextText}"`);
-            
-            if (contextText.trim()) {
-              const searchResults = wordParagraph.search(contextText, { matchCase: false });
-              searchResults.load('items');
-              await context.sync();
-              if (searchResults.items.length > 0) {
-                targetRange = searchResults.items[0];
-              }
-            }
+  /**
+   * Mark all pending corrections in the Word document for preview.
+   * Work is queued across corrections so the number of round-trips depends on the
+   * number of paragraphs (in batches), not on the number of corrections.
+   */
+  private async highlightAllCorrections(startup: StartupOptions = {}): Promise<void> {
+    if (!this.session) {
+      console.log(`❌ No session available for highlighting`);
+      return;
+    }
+
+    const session = this.session;
+    const startedAt = Date.now();
+    const report: HighlightReport = {
+      marked: 0,
+      fallback: 0,
+      failed: 0,
+      roundTrips: 0,
+      elapsedMs: 0,
+    };
+    const { onProgress, cancellation } = startup;
+    let toMark = 0;
+    let processed = 0;
+    const checkpoint = (newlyProcessed: number) => {
+      processed += newlyProcessed;
+      if (onProgress) {
+        onProgress({
+          phase: "highlighting",
+          completed: processed,
+          total: toMark,
+          corrections: session.corrections.length,
+        });
+      }
+      if (cancellation) cancellation.throwIfCancelled();
+    };
+    console.log(`🎨 Highlighting ${session.corrections.length} corrections in Word document...`);
+
+    try {
+      await Word.run(async (context) => {
+        const paragraphs = context.document.body.paragraphs;
+        paragraphs.load("items");
+        const contentControls = context.document.contentControls;
+        contentControls.load("items/tag");
+        await context.sync();
+        report.roundTrips++;
+
+        // A resumed session may already have highlights in the document
+        const highlightedTags = contentControls.items.map((control) => control.tag);
+
+        // Group the corrections to mark by paragraph; style changes are listed in the pane only,
+        // since painting the whole paragraph would obscure text corrections
+        const groups: ParagraphRangeGroup[] = [];
+        const groupsByParagraph: { [paragraphIndex: number]: ParagraphRangeGroup } = {};
+        for (const correction of session.corrections) {
+          if (
+            correction.status !== "pending" ||
+            correction.changeType === "style" ||
+            highlightedTags.indexOf(`${PREVIEW_TAG_PREFIX}${correction.id}`) !== -1
+          ) {
+            continue;
           }
-          
-          // Fallback: highlight a word around the insertion point
-          if (!targetRange) {
-            const wordStart = paragraphText.lastIndexOf(' ', insertionPoint - 1) + 1;
-            const wordEnd = paragraphText.indexOf(' ', insertionPoint);
-            const wordToHighlight = paragraphText.substring(
-              wordStart,
-              wordEnd === -1 ? paragraphText.length : wordEnd
+          const wordParagraph = this.getWordParagraph(paragraphs, correction);
+          if (!wordParagraph) {
+            console.warn(
+              `⚠️ Paragraph ${correction.paragraphNumber} not found - correction ${correction.id} is not marked`
             );
-            
-            if (wordToHighlight.trim()) {
-              const searchResults = wordParagraph.search(wordToHighlight, { matchCase: false });
-              searchResults.load('items');
-              await context.sync();
-              if (searchResults.items.length > 0) {
-                targetRange = searchResults.items[0];
-              }
-            }
+            report.failed++;
+            continue;
           }
-          
-          highlightColor = 'LightGreen';
-        } else if (correction.changeType === 'modification') {
-          // For modifications, get the exact text to be changed
-          if (correction.startOffset < paragraphText.length && correction.endOffset <= paragraphText.length && correction.startOffset < correction.endOffset) {
-            const exactTextToModify = paragraphText.substring(correction.startOffset, correction.endOffset);
-            console.log(`📍 Modifying exact text at offset ${correction.startOffset}-${correction.endOffset}: "${exactTextToModify}"`);
-            
-            // Search for the exact text to modify
-            if (exactTextToModify.trim()) {
-              const searchResults = wordParagraph.search(exactTextToModify, { matchCase: false });
-              searchResults.load('items');
-              await context.sync();
-              if (searchResults.items.length > 0) {
-                targetRange = searchResults.items[0];
-              }
-            }
+          const paragraphIndex = paragraphs.items.indexOf(wordParagraph);
+          if (!groupsByParagraph[paragraphIndex]) {
+            groupsByParagraph[paragraphIndex] = { wordParagraph, corrections: [] };
+            groups.push(groupsByParagraph[paragraphIndex]);
           }
-          
-          highlightColor = 'LightBlue';
+          groupsByParagraph[paragraphIndex].corrections.push(correction);
         }
 
-        // Apply highlighting if we successfully created a range
-        if (targetRange && highlightColor) {
-          targetRange.load(['font', 'text']);
-          await context.sync();
+        groups.forEach((group) => {
+          toMark += group.corrections.length;
+        });
+        checkpoint(0);
 
-          console.log(`   📍 Successfully created range: "${targetRange.text}" (length: ${targetRange.text.length})`);
-
-          // Apply preview highlighting with multiple visual cues
-          targetRange.font.highlightColor = highlightColor;
-          targetRange.font.underline = 'Single';
-          
-          // Add color coding for different change types
-          if (correction.changeType === 'deletion') {
-            targetRange.font.color = 'Red';
-          } else if (correction.changeType === 'addition') {
-            targetRange.font.color = 'Green';
-          } else {
-            targetRange.font.color = 'Blue';
-          }
-          
-          // Create content control for tracking
-          const contentControl = targetRange.insertContentControl();
-          contentControl.tag = `correction_${correction.id}`;
-          contentControl.title = `${correction.changeType}: ${correction.diffText} (offset: ${correction.startOffset}-${correction.endOffset})`;
-          
+        const { ranges, roundTrips } = await resolveCorrectionRanges(
+          context,
+          groups,
+          previewSpan,
+          cancellation
+        );
+        report.roundTrips += roundTrips;
+
+        const marks: {
+          correction: CorrectionObject;
+          range: Word.Range;
+          color: string;
+          note: string;
+        }[] = [];
+        const unresolved: { correction: CorrectionObject; wordParagraph: Word.Paragraph }[] = [];
+        groups.forEach((group) =>
+          group.corrections.forEach((correction) => {
+            const range = ranges[correction.id];
+            if (range) {
+              marks.push({
+                correction,
+                range,
+                color: PREVIEW_COLORS[correction.changeType],
+                note: `offset: ${correction.startOffset}-${correction.endOffset}`,
+              });
+            } else {
+              unresolved.push({ correction, wordParagraph: group.wordParagraph });
+            }
+          })
+        );
+        report.marked += await this.insertPreviewMarks(context, marks, report, checkpoint);
+
+        // Fallback for spans that couldn't be resolved: the first match of the text, or else the whole paragraph
+        if (unresolved.length > 0) {
+          console.warn(
+            `⚠️ Could not create precise ranges for ${unresolved.length} correction(s) - using fallback`
+          );
+          const searches = unresolved.map(({ correction, wordParagraph }) => {
+            if (!correction.diffText || !correction.diffText.trim()) return null;
+            const results = wordParagraph.search(correction.diffText, { matchCase: false });
+            results.load("items");
+            return results;
+          });
           await context.sync();
-          
-          console.log(`✅ Successfully highlighted ${correction.changeType} at offset ${correction.startOffset}-${correction.endOffset}`);
-        } else {
-          console.warn(`⚠️ Could not create precise range for correction ${correction.id} - using fallback`);
-          await this.applyFallbackHighlighting(wordParagraph, correction);
+          report.roundTrips++;
+          checkpoint(0);
+
+          const fallbackMarks = unresolved.map(({ correction, wordParagraph }, index) => {
+            const results = searches[index];
+            return results && results.items.length > 0
+              ? {
+                  correction,
+                  range: results.items[0],
+                  color: FALLBACK_PREVIEW_COLOR,
+                  note: "fallback",
+                }
+              : {
+                  correction,
+                  range: wordParagraph.getRange(),
+                  color: FALLBACK_PREVIEW_COLOR,
+                  note: "paragraph fallback",
+                };
+          });
+          report.fallback += await this.insertPreviewMarks(
+            context,
+            fallbackMarks,
+            report,
+            checkpoint
+          );
         }
-      } catch (error) {
-        console.error(`❌ Error with precise highlighting for correction ${correction.id}:`, error);
-        await this.applyFallbackHighlighting(wordParagraph, correction);
+      });
+    } catch (error) {
+      if (error instanceof ReviewCancelledError) {
+        throw error;
       }
+      console.error("❌ Error highlighting corrections:", error);
     }
+
+    report.elapsedMs = Date.now() - startedAt;
+    this.lastHighlightReport = report;
+    console.log(
+      `⏱️ Marked ${report.marked} correction(s) (${report.fallback} fallback, ${report.failed} failed) in ${report.elapsedMs} ms over ${report.roundTrips} round-trip(s)`
+    );
   }
 
   /**
-   * Apply fallback highlighting when precise offset positioning fails
+   * Insert preview marks, one sync per batch. When a batch fails, its marks are retried
+   * one at a time so a single bad range doesn't leave the rest unmarked.
+   * afterBatch is called with the size of every completed batch.
+   * Returns the number of marks inserted.
    */
-  private async applyFallbackHighlighting(wordParagraph: Word.Paragraph, correction: CorrectionObject): Promise<void> {
-    try {
-      console.log(`🔄 Applying fallback highlighting for correction ${correction.id}`);
-      
-      // Try text search as fallback
-      if (correction.diffText && correction.diffText.trim()) {
-        const searchResults = wordParagraph.search(correction.diffText, { matchCase: false });
-        searchResults.load('items');
-        await Word.run(async (context) => {
+  private async insertPreviewMarks(
+    context: Word.RequestContext,
+    marks: { correction: CorrectionObject; range: Word.Range; color: string; note: string }[],
+    report: HighlightReport,
+    afterBatch: (batchSize: number) => void
+  ): Promise<number> {
+    let inserted = 0;
+
+    for (let batchStart = 0; batchStart < marks.length; batchStart += RANGE_BATCH_SIZE) {
+      const batch = marks.slice(batchStart, batchStart + RANGE_BATCH_SIZE);
+      let batchSynced = false;
+      try {
+        batch.forEach((mark) =>
+          this.insertPreviewMark(mark.range, mark.correction, mark.color, mark.note)
+        );
+        await context.sync();
+        batchSynced = true;
+      } catch (error) {
+        console.warn(
+          `⚠️ Marking a batch of ${batch.length} correction(s) failed - retrying one by one:`,
+          error
+        );
+      }
+      report.roundTrips++;
+      if (batchSynced) {
+        inserted += batch.length;
+        afterBatch(batch.length);
+        continue;
+      }
+
+      // Part of the failed batch may have been applied before the error
+      const existing = batch.map((mark) => {
+        const controls = context.document.contentControls.getByTag(
+          `${PREVIEW_TAG_PREFIX}${mark.correction.id}`
+        );
+        controls.load("items");
+        return controls;
+      });
+      await context.sync();
+      report.roundTrips++;
+
+      for (let index = 0; index < batch.length; index++) {
+        const mark = batch[index];
+        if (existing[index].items.length > 0) {
+          inserted++;
+          continue;
+        }
+        try {
+          this.insertPreviewMark(mark.range, mark.correction, mark.color, mark.note);
           await context.sync();
-          
-          if (searchResults.items.length > 0) {
-            const targetRange = searchResults.items[0];
-            targetRange.load(['font']);
-            await context.sync();
-            
-            // Apply fallback highlighting
-            targetRange.font.highlightColor = 'Yellow';
-            targetRange.font.underline = 'Single';
-            
-            const contentControl = targetRange.insertContentControl();
-            contentControl.tag = `correction_${correction.id}`;
-            contentControl.title = `${correction.changeType}: ${correction.diffText} (fallback)`;
-            
-            await context.sync();
-            console.log(`✅ Applied fallback highlighting for: "${correction.diffText}"`);
-          } else {
-            // Ultimate fallback: highlight entire paragraph
-            const paragraphRange = wordParagraph.getRange();
-            paragraphRange.load(['font']);
-            await context.sync();
-            
-            paragraphRange.font.highlightColor = 'LightYellow';
-            const contentControl = paragraphRange.insertContentControl();
-            contentControl.tag = `correction_${correction.id}`;
-            contentControl.title = `${correction.changeType}: ${correction.diffText} (paragraph fallback)`;
-            
-            await context.sync();
-            console.log(`🔄 Applied paragraph fallback highlighting`);
-          }
-        });
+          inserted++;
+        } catch (error) {
+          console.warn(`⚠️ Failed to highlight correction ${mark.correction.id}:`, error);
+          report.failed++;
+        } finally {
+          report.roundTrips++;
+        }
       }
-    } catch (fallbackError) {
-      console.error(`❌ Even fallback highlighting failed:`, fallbackError);
+      afterBatch(batch.length);
     }
+
+    return inserted;
+  }
+
+  /**
+   * Timing and outcome of the most recent highlighting pass
+   */
+  getLastHighlightReport(): HighlightReport | null {
+    return this.lastHighlightReport;
+  }
+
+  /**
+   * Wrap a range in a tagged preview content control, drawn as a colored bounding box
+   */
+  private insertPreviewMark(
+    range: Word.Range,
+    correction: CorrectionObject,
+    color: string,
+    note: string
+  ): Word.ContentControl {
+    const contentControl = range.insertContentControl();
+    contentControl.tag = `${PREVIEW_TAG_PREFIX}${correction.id}`;
+    contentControl.title = `${correction.changeType}: ${correction.diffText} (${note})`;
+    contentControl.appearance = "BoundingBox";
+    contentControl.color = color;
+    return contentControl;
   }
 
   /**
-   * Remove highlight for a specific correction after it's accepted
+   * Remove the preview mark of a specific correction after it's accepted
    */
   private async removeHighlight(correctionId: string): Promise<void> {
     try {
       await Word.run(async (context) => {
-        // Find content controls with the correction tag
-        const contentControls = context.document.contentControls;
-        contentControls.load('items');
+        const contentControls = context.document.contentControls.getByTag(
+          `${PREVIEW_TAG_PREFIX}${correctionId}`
+        );
+        contentControls.load("items");
         await context.sync();
 
-        for (const control of contentControls.items) {
-          control.load(['tag', 'range']);
+        // Keep the text, remove only the control
+        contentControls.items.forEach((control) => control.delete(true));
+        await context.sync();
+        if (contentControls.items.length > 0) {
+          console.log(`🧹 Removed preview mark for correction: ${correctionId}`);
         }
+      });
+    } catch (error) {
+      console.error("❌ Error removing highlight:", error);
+    }
+  }
+
+  /**
+   * Remove every preview mark from the document, keeping the text they wrap
+   */
+  private async removeAllHighlights(): Promise<void> {
+    try {
+      await Word.run(async (context) => {
+        const contentControls = context.document.contentControls;
+        contentControls.load("items/tag");
         await context.sync();
 
-        // Find and remove the highlight for this correction
-        for (const control of contentControls.items) {
-          if (control.tag === `correction_${correctionId}`) {
-            // Get the range from the content control
-            const range = control.getRange();
-            range.load(['font']);
-            await context.sync();
-
-            // Remove highlighting
-            range.font.highlightColor = null;
-            range.font.underline = 'None';
-            
-            // Remove the content control
-            control.delete(false); // Keep the text, remove the control
-            
-            await context.sync();
-            console.log(`🧹 Removed highlight for correction: ${correctionId}`);
-            break;
-          }
-        }
+        const previewControls = contentControls.items.filter(
+          (control) => control.tag && control.tag.indexOf(PREVIEW_TAG_PREFIX) === 0
+        );
+        previewControls.forEach((control) => control.delete(true));
+        await context.sync();
+        console.log(`🧹 Removed ${previewControls.length} preview mark(s)`);
       });
     } catch (error) {
-      console.error('❌ Error removing highlight:', error);
+      console.error("❌ Error removing preview marks:", error);
     }
   }
 
@@ -531,18 +908,37 @@ export class CorrectionReviewManager {
       console.log(`❌ No session available for correction application`);
       return false;
     }
-    
-    const correction = this.session.corrections.find(c => c.id === correctionId);
+
+    const correction = this.session.corrections.find((c) => c.id === correctionId);
     if (!correction) {
       console.log(`❌ Correction not found: ${correctionId}`);
       return false;
     }
-    
-    if (correction.status !== 'pending') {
+
+    if (correction.status !== "pending") {
       console.log(`❌ Correction ${correctionId} is not pending (status: ${correction.status})`);
       return false;
     }
-    
+
+    // The status only changes once Word has synced, so a second request in the meantime would apply it twice
+    if (this.applying.has(correctionId)) {
+      console.log(`❌ Correction ${correctionId} is already being applied`);
+      return false;
+    }
+
+    this.applying.add(correctionId);
+    try {
+      return await this.applyPendingCorrection(correction);
+    } finally {
+      this.applying.delete(correctionId);
+    }
+  }
+
+  /**
+   * Apply a pending correction in Word, then record it as applied
+   */
+  private async applyPendingCorrection(correction: CorrectionObject): Promise<boolean> {
+    const correctionId = correction.id;
     console.log(`🚀 Starting correction application for: ${correctionId}`);
     console.log(`📋 Correction details:`, {
       id: correction.id,
@@ -552,286 +948,382 @@ export class CorrectionReviewManager {
       originalText: correction.originalText,
       correctedText: correction.correctedText,
       startOffset: correction.startOffset,
-      endOffset: correction.endOffset
+      endOffset: correction.endOffset,
     });
-    
+
+    const correctionsBefore = this.snapshotParagraphCorrections(correction);
+
     try {
-      // Apply the correction to Word document
-      await Word.run(async (context) => {
-        console.log(`📖 Loading Word document paragraphs...`);
-        
-        // Get the paragraph by number (1-based to 0-based conversion)
-        const paragraphs = context.document.body.paragraphs;
-        paragraphs.load("items");
-        await context.sync();
-        
-        console.log(`📊 Total paragraphs in document: ${paragraphs.items.length}`);
-        
-        const paragraphIndex = correction.paragraphNumber - 1;
-        console.log(`🎯 Looking for paragraph at index ${paragraphIndex} (paragraph number ${correction.paragraphNumber})`);
-        
-        if (paragraphIndex >= 0 && paragraphIndex < paragraphs.items.length) {
-          const wordParagraph = paragraphs.items[paragraphIndex];
-          wordParagraph.load('text');
-          await context.sync();
-          
-          const currentText = wordParagraph.text;
-          console.log(`📄 Found paragraph ${correction.paragraphNumber}:`);
-          console.log(`   Current text: "${currentText}"`);
-          console.log(`   Expected original: "${correction.originalText}"`);
-          console.log(`   Target corrected: "${correction.correctedText}"`);
-          
-          // Check if the paragraph text matches what we expect
-          const normalizedCurrent = currentText.trim().replace(/\s+/g, ' ');
-          const normalizedOriginal = correction.originalText.trim().replace(/\s+/g, ' ');
-          
-          if (normalizedCurrent !== normalizedOriginal) {
-            console.log(`⚠️ WARNING: Paragraph text mismatch!`);
-            console.log(`   Normalized current: "${normalizedCurrent}"`);
-            console.log(`   Normalized expected: "${normalizedOriginal}"`);
-            console.log(`   Proceeding with fallback paragraph replacement...`);
-            
-            // Use fallback approach immediately if text doesn't match
-            const targetCorrectedText = correction.correctedText.trim();
-            wordParagraph.clear();
-            await context.sync();
-            
-            wordParagraph.insertText(targetCorrectedText, Word.InsertLocation.start);
-            await context.sync();
-            
-            console.log(`✅ Fallback paragraph replacement completed`);
-          } else {
-            // Apply correction at segment level for precise change tracking
-            try {
-              console.log(`🎯 Applying ${correction.changeType} correction: "${correction.diffText}" at offset ${correction.startOffset}-${correction.endOffset}`);
-              
-              // Apply correction based on change type
-              if (correction.changeType === 'deletion') {
-                await this.applyDeletionCorrection(context, wordParagraph, correction);
-              } else if (correction.changeType === 'addition') {
-                await this.applyAdditionCorrection(context, wordParagraph, correction);
-              } else if (correction.changeType === 'modification') {
-                await this.applyModificationCorrection(context, wordParagraph, correction);
-              }
-              
-              console.log(`✅ Successfully applied ${correction.changeType} correction at paragraph ${correction.paragraphNumber}`);
-            } catch (error) {
-              console.log(`❌ Error applying segment-level correction:`, error);
-              
-              // Fallback to paragraph-level replacement for reliability
-              try {
-                console.log(`🔧 Falling back to paragraph-level replacement`);
-                const targetCorrectedText = correction.correctedText.trim();
-                
-                wordParagraph.clear();
-                await context.sync();
-                
-                wordParagraph.insertText(targetCorrectedText, Word.InsertLocation.start);
-                await context.sync();
-                
-                console.log(`✅ Fallback paragraph replacement successful`);
-              } catch (fallbackError) {
-                console.log(`❌ Fallback also failed:`, fallbackError);
-                throw fallbackError;
-              }
-            }
-          }
-        } else {
-          console.log(`❌ Paragraph index ${paragraphIndex} is out of range (0-${paragraphs.items.length - 1})`);
-          throw new Error(`Paragraph ${correction.paragraphNumber} not found in document`);
-        }
-      });
-      
-      correction.status = 'applied';
+      const edit = await this.applyToDocument(correction);
+
+      correction.status = "applied";
+      correction.decidedAt = new Date().toISOString();
       // Remove the preview highlight after applying the correction
       await this.removeHighlight(correctionId);
+      this.recordHistory(`Accept ${correction.suggestion}`, correction, correctionsBefore, edit);
       this.notifyProgressUpdate();
       console.log(`Successfully applied correction: ${correction.actionDescription}`);
       return true;
     } catch (error) {
-      console.error('Error applying specific correction:', error);
+      console.error("Error applying specific correction:", error);
       return false;
     }
   }
 
   /**
-   * Apply a deletion correction with precise highlighting
+   * Make a correction's edit in the Word document and rebase its siblings.
+   * Returns the span it changed, for undo.
    */
-  private async applyDeletionCorrection(
+  private async applyToDocument(correction: CorrectionObject): Promise<AppliedEdit> {
+    return await Word.run(async (context) => {
+      console.log(`📖 Loading Word document paragraphs...`);
+
+      // Get the paragraph by number (1-based to 0-based conversion)
+      const paragraphs = context.document.body.paragraphs;
+      paragraphs.load("items");
+      await context.sync();
+
+      console.log(`📊 Total paragraphs in document: ${paragraphs.items.length}`);
+
+      console.log(
+        `🎯 Looking for paragraph ${correction.wordNativeParaId} (paragraph number ${correction.paragraphNumber})`
+      );
+      const wordParagraph = this.getWordParagraph(paragraphs, correction);
+
+      if (wordParagraph) {
+        wordParagraph.load("text");
+        await context.sync();
+
+        const currentText = wordParagraph.text;
+        console.log(`📄 Found paragraph ${correction.paragraphNumber}:`);
+        console.log(`   Current text: "${currentText}"`);
+        console.log(`   Expected original: "${correction.originalText}"`);
+        console.log(`   Target corrected: "${correction.correctedText}"`);
+
+        // Sibling corrections are rebased after every edit, so a mismatch means the
+        // paragraph was changed outside the review and the offsets can't be trusted
+        const normalizedCurrent = currentText.trim().replace(/\s+/g, " ");
+        const normalizedOriginal = correction.originalText.trim().replace(/\s+/g, " ");
+
+        if (normalizedCurrent !== normalizedOriginal) {
+          console.log(`⚠️ WARNING: Paragraph text mismatch!`);
+          console.log(`   Normalized current: "${normalizedCurrent}"`);
+          console.log(`   Normalized expected: "${normalizedOriginal}"`);
+          throw new Error(
+            `Paragraph ${correction.paragraphNumber} was edited outside the review - correction ${correction.id} can no longer be placed`
+          );
+        }
+
+        const edit = await this.captureEditSpan(
+          context,
+          wordParagraph,
+          correction,
+          currentText.trim()
+        );
+
+        console.log(
+          `🎯 Applying ${correction.changeType} correction: "${correction.diffText}" at offset ${correction.startOffset}-${correction.endOffset}`
+        );
+
+        // Apply correction based on change type
+        if (correction.changeType === "deletion") {
+          await this.applyDeletionCorrection(context, wordParagraph, correction);
+        } else if (correction.changeType === "addition") {
+          await this.applyAdditionCorrection(context, wordParagraph, correction);
+        } else if (correction.changeType === "modification") {
+          await this.applyModificationCorrection(context, wordParagraph, correction);
+        } else if (correction.changeType === "formatting") {
+          await this.applyFormattingCorrection(context, wordParagraph, correction);
+        } else if (correction.changeType === "style") {
+          await this.applyStyleCorrection(context, wordParagraph, correction);
+        }
+
+        // Read the edited text back and shift the other corrections in this paragraph
+        wordParagraph.load("text");
+        await context.sync();
+        const editedText = wordParagraph.text.trim();
+        this.rebaseSiblings(correction, currentText.trim(), editedText);
+        const spanLength =
+          correction.endOffset -
+          correction.startOffset +
+          editedText.length -
+          currentText.trim().length;
+        edit.textAfter = editedText.substr(edit.start, spanLength);
+
+        console.log(
+          `✅ Successfully applied ${correction.changeType} correction at paragraph ${correction.paragraphNumber}`
+        );
+        return edit;
+      } else {
+        console.log(
+          `❌ Paragraph ${correction.wordNativeParaId} could not be located among ${paragraphs.items.length} paragraphs`
+        );
+        throw new Error(`Paragraph ${correction.paragraphNumber} not found in document`);
+      }
+    });
+  }
+
+  /**
+   * Record what a correction is about to change: the text of its span, and the font or
+   * paragraph style when the edit changes those instead of (or as well as) the text
+   */
+  private async captureEditSpan(
+    context: Word.RequestContext,
+    wordParagraph: Word.Paragraph,
+    correction: CorrectionObject,
+    paragraphText: string
+  ): Promise<AppliedEdit> {
+    const edit: AppliedEdit = {
+      start: correction.startOffset,
+      textBefore: paragraphText.substring(correction.startOffset, correction.endOffset),
+      textAfter: "",
+      fontBefore: null,
+      styleBefore: null,
+    };
+
+    if (correction.changeType === "style") {
+      wordParagraph.load("style");
+      await context.sync();
+      edit.styleBefore = wordParagraph.style;
+    } else if (
+      edit.textBefore &&
+      (correction.changeType === "formatting" || this.session?.applyMode === "formatting")
+    ) {
+      const range = await resolveCorrectionRange(context, wordParagraph, correction);
+      if (range) {
+        const font = range.font;
+        font.load(UNDO_FONT_PROPERTIES);
+        await context.sync();
+        const fontBefore: AppliedEdit["fontBefore"] = {};
+        UNDO_FONT_PROPERTIES.forEach((property) => {
+          const value = font[property];
+          // null means mixed, except for highlightColor where it means no highlight
+          if (value !== undefined && (value !== null || property === "highlightColor")) {
+            fontBefore[property] = value;
+          }
+        });
+        edit.fontBefore = fontBefore;
+      }
+    }
+    return edit;
+  }
+
+  /**
+   * Apply a deletion correction - a tracked delete, or strikethrough in formatting mode
+   */
+  private async applyDeletionCorrection(
     context: Word.RequestContext,
     wordParagraph: Word.Paragraph,
     correction: CorrectionObject
   ): Promise<void> {
     console.log(`🗑️ Applying deletion: "${correction.diffText}"`);
-    
-    // For deletion, find and highlight the specific text before deleting
-    const searchResults = wordParagraph.search(correction.diffText, { 
-      matchCase: false,
-      matchWholeWord: false 
-    });
-    searchResults.load('items');
+
+    const targetRange = await resolveCorrectionRange(context, wordParagraph, correction);
+    if (!targetRange) {
+      throw new Error(
+        `Could not resolve range for deletion "${correction.diffText}" at ${correction.startOffset}-${correction.endOffset}`
+      );
+    }
+
+    targetRange.load(["text"]);
     await context.sync();
-    
-    if (searchResults.items.length > 0) {
-      const targetRange = searchResults.items[0];
-      
-      // Load range properties for highlighting
-      targetRange.load(['text', 'font']);
-      await context.sync();
-      
-      console.log(`🎯 Found text to delete: "${targetRange.text}"`);
-      
-      // Apply strikethrough and red highlighting to show deletion
-      targetRange.font.strikeThrough = true;
-      targetRange.font.color = 'Red';
-      targetRange.font.highlightColor = 'Pink';
-      await context.sync();
-      
-      console.log(`✅ Applied deletion highlighting to: "${correction.diffText}"`);
-      
-      // Note: We keep the text with strikethrough instead of deleting it
-      // This provides better visual feedback for the correction
-    } else {
-      console.warn(`⚠️ Could not find exact text to delete: "${correction.diffText}"`);
-      // Fallback: highlight the general area where deletion should occur
-      wordParagraph.font.highlightColor = 'Pink';
+    console.log(`🎯 Found text to delete: "${targetRange.text}"`);
+
+    if (this.session?.applyMode === "trackedChanges") {
+      // Change tracking is on, so this becomes a deletion revision
+      targetRange.delete();
       await context.sync();
+      console.log(`✅ Deleted "${correction.diffText}" as tracked change`);
+      return;
     }
+
+    // Apply strikethrough and red highlighting to show deletion
+    targetRange.font.strikeThrough = true;
+    targetRange.font.color = "Red";
+    targetRange.font.highlightColor = "Pink";
+    await context.sync();
+
+    // Note: We keep the text with strikethrough instead of deleting it
+    // This provides better visual feedback for the correction
+    console.log(`✅ Applied deletion highlighting to: "${correction.diffText}"`);
   }
 
   /**
-   * Apply an addition correction with precise highlighting
+   * Apply an addition correction - a tracked insert, highlighted in formatting mode
    */
   private async applyAdditionCorrection(
     context: Word.RequestContext,
     wordParagraph: Word.Paragraph,
     correction: CorrectionObject
   ): Promise<void> {
-    console.log(`➕ Applying addition: "${correction.diffText}"`);
-    
-    // For addition, insert text at the correct position with highlighting
-    const paragraphText = wordParagraph.text;
-    
-    let insertedRange: Word.Range;
-    
-    // Try to find a good insertion point by looking for surrounding text
-    if (correction.startOffset > 0 && correction.startOffset < paragraphText.length) {
-      // Get some context before the insertion point
-      const contextBefore = paragraphText.substring(Math.max(0, correction.startOffset - 10), correction.startOffset);
-      
-      if (contextBefore.trim()) {
-        const searchResults = wordParagraph.search(contextBefore, { matchCase: false });
-        searchResults.load('items');
-        await context.sync();
-        
-        if (searchResults.items.length > 0) {
-          // Insert the text after the context
-          insertedRange = searchResults.items[0].insertText(correction.diffText, Word.InsertLocation.after);
-          console.log(`🎯 Inserted text after context: "${contextBefore}"`);
-        } else {
-          // Fallback to end insertion
-          insertedRange = wordParagraph.insertText(correction.diffText, Word.InsertLocation.end);
-          console.log(`🔄 Fallback: Inserted text at end of paragraph`);
-        }
-      } else {
-        insertedRange = wordParagraph.insertText(correction.diffText, Word.InsertLocation.end);
-      }
-    } else {
-      // Insert at the end of paragraph
-      insertedRange = wordParagraph.insertText(correction.diffText, Word.InsertLocation.end);
+    console.log(
+      `➕ Applying addition: "${correction.diffText}" at offset ${correction.startOffset}`
+    );
+
+    const insertionPoint = await resolveCorrectionRange(context, wordParagraph, correction);
+    if (!insertionPoint) {
+      throw new Error(
+        `Could not resolve insertion point for "${correction.diffText}" at offset ${correction.startOffset}`
+      );
+    }
+
+    const insertedRange = insertionPoint.insertText(correction.diffText, Word.InsertLocation.start);
+
+    if (this.session?.applyMode === "trackedChanges") {
+      // Change tracking is on, so the insertion is already an insertion revision
+      await context.sync();
+      console.log(`✅ Inserted "${correction.diffText}" as tracked change`);
+      return;
     }
-    
+
     // Apply highlighting to the newly inserted text
-    insertedRange.load(['text', 'font']);
-    await context.sync();
-    
-    insertedRange.font.color = 'Green';
-    insertedRange.font.highlightColor = 'LightGreen';
+    insertedRange.font.color = "Green";
+    insertedRange.font.highlightColor = "LightGreen";
     insertedRange.font.bold = true;
     await context.sync();
-    
+
     console.log(`✅ Applied addition highlighting to: "${correction.diffText}"`);
   }
 
   /**
-   * Apply a modification correction with precise highlighting
+   * Apply a modification correction - a tracked replacement, highlighted in formatting mode
    */
   private async applyModificationCorrection(
     context: Word.RequestContext,
     wordParagraph: Word.Paragraph,
     correction: CorrectionObject
   ): Promise<void> {
-    console.log(`🔄 Applying modification: "${correction.diffText}"`);
-    
-    // For paragraph-level modifications (startOffset=0, endOffset=full length), 
-    // replace the entire paragraph content with highlighting
-    if (correction.startOffset === 0 && correction.endOffset === correction.originalText.length) {
-      console.log(`🔄 Replacing entire paragraph with: "${correction.diffText}"`);
-      
-      // Clear and replace entire paragraph content
-      wordParagraph.clear();
-      await context.sync();
-      
-      const insertedRange = wordParagraph.insertText(correction.diffText, Word.InsertLocation.start);
-      
-      // Load range properties and apply highlighting
-      insertedRange.load(['text', 'font']);
-      await context.sync();
-      
-      insertedRange.font.color = 'DarkBlue';
-      insertedRange.font.highlightColor = 'Yellow';
-      insertedRange.font.bold = true;
-      await context.sync();
-      
-      console.log(`✅ Successfully replaced and highlighted entire paragraph content`);
-    } else {
-      // For segment-level modifications, replace specific text with precise highlighting
-      const paragraphText = wordParagraph.text;
-      const originalSegment = paragraphText.substring(correction.startOffset, correction.endOffset);
-      
-      console.log(`🔄 Replacing segment "${originalSegment}" with "${correction.diffText}"`);
-      
-      // Search for the original text and replace it
-      const searchResults = wordParagraph.search(originalSegment, { 
-        matchCase: false,
-        matchWholeWord: false 
-      });
-      searchResults.load('items');
+    console.log(
+      `🔄 Applying modification: "${correction.diffText}" → "${correction.replacementText}"`
+    );
+
+    const targetRange = await resolveCorrectionRange(context, wordParagraph, correction);
+    if (!targetRange) {
+      throw new Error(
+        `Could not resolve range for modification at ${correction.startOffset}-${correction.endOffset}`
+      );
+    }
+
+    const replacement = correction.replacementText || "";
+    const replacedRange = targetRange.insertText(replacement, Word.InsertLocation.replace);
+
+    if (this.session?.applyMode === "trackedChanges") {
       await context.sync();
-      
-      if (searchResults.items.length > 0) {
-        // Replace the first occurrence with highlighting
-        const replacedRange = searchResults.items[0].insertText(correction.diffText, Word.InsertLocation.replace);
-        
-        // Load range properties and apply highlighting
-        replacedRange.load(['text', 'font']);
-        await context.sync();
-        
-        replacedRange.font.color = 'DarkBlue';
-        replacedRange.font.highlightColor = 'Turquoise';
-        replacedRange.font.bold = true;
-        await context.sync();
-        
-        console.log(`✅ Replaced and highlighted segment "${originalSegment}" with "${correction.diffText}"`);
-      } else {
-        console.warn(`⚠️ Could not find exact text to replace: "${originalSegment}"`);
-        // Fallback: highlight the entire paragraph to show modification occurred
-        wordParagraph.font.highlightColor = 'Turquoise';
-        await context.sync();
-      }
+      console.log(`✅ Replaced "${correction.diffText}" with "${replacement}" as tracked change`);
+      return;
     }
+
+    replacedRange.font.color = "DarkBlue";
+    replacedRange.font.highlightColor = "Turquoise";
+    replacedRange.font.bold = true;
+    await context.sync();
+
+    console.log(`✅ Replaced and highlighted "${correction.diffText}" with "${replacement}"`);
   }
 
   /**
-   * Reject a specific correction by ID
+   * Apply a formatting correction by setting the font property on the exact range
+   */
+  private async applyFormattingCorrection(
+    context: Word.RequestContext,
+    wordParagraph: Word.Paragraph,
+    correction: CorrectionObject
+  ): Promise<void> {
+    if (!correction.formatting) {
+      throw new Error(`Formatting correction ${correction.id} has no formatting change`);
+    }
+    const { style, value } = correction.formatting;
+    console.log(`🅱️ Applying formatting: ${style}=${value} on "${correction.diffText}"`);
+
+    const targetRange = await resolveCorrectionRange(context, wordParagraph, correction);
+    if (!targetRange) {
+      throw new Error(
+        `Could not resolve range for formatting at ${correction.startOffset}-${correction.endOffset}`
+      );
+    }
+
+    switch (style) {
+      case "underline":
+        targetRange.font.underline = value ? Word.UnderlineType.single : Word.UnderlineType.none;
+        break;
+      default:
+        // bold, italic, superscript, subscript and strikeThrough are boolean font properties
+        targetRange.font[style] = value;
+    }
+
+    if (this.session?.applyMode === "formatting") {
+      targetRange.font.highlightColor = "Lavender";
+    }
+    await context.sync();
+
+    console.log(`✅ Applied ${style}=${value} to "${correction.diffText}"`);
+  }
+
+  /**
+   * Apply a paragraph style correction
+   */
+  private async applyStyleCorrection(
+    context: Word.RequestContext,
+    wordParagraph: Word.Paragraph,
+    correction: CorrectionObject
+  ): Promise<void> {
+    const paragraphStyle = correction.paragraphStyle;
+    if (!paragraphStyle) {
+      throw new Error(`Style correction ${correction.id} has no target style`);
+    }
+
+    if (paragraphStyle.styleName) {
+      wordParagraph.style = paragraphStyle.styleName;
+    } else if (paragraphStyle.builtIn) {
+      wordParagraph.styleBuiltIn = paragraphStyle.builtIn as Word.BuiltInStyleName;
+    }
+    await context.sync();
+
+    console.log(
+      `✅ Applied paragraph style ${paragraphStyle.styleName || paragraphStyle.builtIn} for <{${paragraphStyle.marker}}>`
+    );
+  }
+
+  /**
+   * Rebase the other corrections in the correction's paragraph after it changed the text.
+   * Text changes are always contained in the correction's own span, so the edit is
+   * that span growing or shrinking by the change in paragraph length.
+   */
+  private rebaseSiblings(
+    correction: CorrectionObject,
+    textBefore: string,
+    textAfter: string
+  ): void {
+    // Formatting and style changes leave the text alone; treating their span as replaced
+    // would stretch every sibling inside it over the whole span
+    if (!this.session || textAfter === textBefore) return;
+
+    const delta = textAfter.length - textBefore.length;
+    const edit: TextEdit = {
+      start: correction.startOffset,
+      end: correction.endOffset,
+      insertedLength: Math.max(0, correction.endOffset - correction.startOffset + delta),
+    };
+    const rebased = rebaseSiblingCorrections(this.session.corrections, correction, edit, textAfter);
+    if (rebased > 0) {
+      console.log(`↔️ Rebased ${rebased} sibling correction(s) by ${delta} character(s)`);
+    }
+  }
+
+  /**
+   * Reject a specific correction by ID.
+   * Rejecting leaves the paragraph text untouched, so sibling offsets stay valid as they are.
    */
   async rejectSpecificCorrection(correctionId: string): Promise<boolean> {
     if (!this.session) return false;
-    
-    const correction = this.session.corrections.find(c => c.id === correctionId);
-    if (!correction || correction.status !== 'pending') return false;
-    
-    correction.status = 'rejected';
+
+    const correction = this.session.corrections.find((c) => c.id === correctionId);
+    if (!correction || correction.status !== "pending") return false;
+
+    const correctionsBefore = [this.snapshotCorrection(correction)];
+    correction.status = "rejected";
+    correction.decidedAt = new Date().toISOString();
+    this.recordHistory(`Reject ${correction.suggestion}`, correction, correctionsBefore, null);
     this.notifyProgressUpdate();
     return true;
   }
@@ -841,12 +1333,10 @@ export class CorrectionReviewManager {
    */
   async applyAllPendingCorrections(): Promise<void> {
     if (!this.session) return;
-    
-    const pendingCorrections = this.session.corrections.filter(c => c.status === 'pending');
-    
-    for (const correction of pendingCorrections) {
-      await this.applySpecificCorrection(correction.id);
-    }
+    await this.applyCorrections(
+      this.session.corrections.map((c) => c.id),
+      "Accept all"
+    );
   }
 
   /**
@@ -854,12 +1344,291 @@ export class CorrectionReviewManager {
    */
   async rejectAllPendingCorrections(): Promise<void> {
     if (!this.session) return;
-    
-    const pendingCorrections = this.session.corrections.filter(c => c.status === 'pending');
-    
-    for (const correction of pendingCorrections) {
-      await this.rejectSpecificCorrection(correction.id);
+    await this.rejectCorrections(
+      this.session.corrections.map((c) => c.id),
+      "Reject all"
+    );
+  }
+
+  /**
+   * Apply the pending corrections among the given IDs as one undoable action
+   */
+  async applyCorrections(
+    correctionIds: string[],
+    label: string = "Accept selection"
+  ): Promise<void> {
+    if (!this.session) return;
+
+    const pendingCorrections = this.session.corrections.filter(
+      (c) => c.status === "pending" && correctionIds.indexOf(c.id) !== -1
+    );
+
+    this.history.beginBatch(`${label} (${pendingCorrections.length})`);
+    try {
+      for (const correction of pendingCorrections) {
+        await this.applySpecificCorrection(correction.id);
+      }
+    } finally {
+      this.history.endBatch();
+      this.notifyProgressUpdate();
+    }
+  }
+
+  /**
+   * Reject the pending corrections among the given IDs as one undoable action
+   */
+  async rejectCorrections(
+    correctionIds: string[],
+    label: string = "Reject selection"
+  ): Promise<void> {
+    if (!this.session) return;
+
+    const pendingCorrections = this.session.corrections.filter(
+      (c) => c.status === "pending" && correctionIds.indexOf(c.id) !== -1
+    );
+
+    this.history.beginBatch(`${label} (${pendingCorrections.length})`);
+    try {
+      for (const correction of pendingCorrections) {
+        await this.rejectSpecificCorrection(correction.id);
+      }
+    } finally {
+      this.history.endBatch();
+      this.notifyProgressUpdate();
+    }
+  }
+
+  /**
+   * Select a correction's text in Word, which also scrolls the document to it.
+   * Zero-width additions select their insertion point; style changes select the paragraph.
+   */
+  async selectCorrection(correctionId: string): Promise<void> {
+    if (!this.session) return;
+
+    const correction = this.session.corrections.find((c) => c.id === correctionId);
+    if (!correction) return;
+
+    try {
+      await Word.run(async (context) => {
+        const paragraphs = context.document.body.paragraphs;
+        paragraphs.load("items");
+        await context.sync();
+
+        const wordParagraph = this.getWordParagraph(paragraphs, correction);
+        if (!wordParagraph) return;
+
+        // Applied corrections no longer match their offsets, so show the whole paragraph
+        const range =
+          correction.changeType === "style" || correction.status === "applied"
+            ? null
+            : await resolveCorrectionRange(context, wordParagraph, correction);
+        (range || wordParagraph.getRange()).select();
+        await context.sync();
+      });
+    } catch (error) {
+      console.warn(`⚠️ Could not select correction ${correctionId}:`, error);
+    }
+  }
+
+  /**
+   * Undo the most recent accept, reject or bulk action.
+   * Reverses the document edits (text, formatting and style), marks the corrections again
+   * and restores their state.
+   */
+  async undo(): Promise<boolean> {
+    if (!this.session) return false;
+
+    const command = this.history.takeUndo();
+    if (!command) return false;
+
+    try {
+      for (const step of command.steps.slice().reverse()) {
+        await this.restoreHistoryStep(step, "before");
+      }
+      // Undone accepts are pending again and need their preview marks back
+      await this.highlightAllCorrections();
+      // Bring the undone correction back into focus
+      const undoneIndex = this.session.corrections.findIndex(
+        (c) => c.id === command.steps[0].correctionId
+      );
+      if (undoneIndex !== -1) {
+        this.session.currentIndex = undoneIndex;
+      }
+      console.log(`↩️ Undid: ${command.label}`);
+      return true;
+    } catch (error) {
+      console.error(`❌ Error undoing "${command.label}":`, error);
+      return false;
+    } finally {
+      this.notifyProgressUpdate();
+      this.notifyCurrentCorrectionChange();
+    }
+  }
+
+  /**
+   * Redo the most recently undone action
+   */
+  async redo(): Promise<boolean> {
+    if (!this.session) return false;
+
+    const command = this.history.takeRedo();
+    if (!command) return false;
+
+    try {
+      for (const step of command.steps) {
+        await this.restoreHistoryStep(step, "after");
+      }
+      console.log(`↪️ Redid: ${command.label}`);
+      return true;
+    } catch (error) {
+      console.error(`❌ Error redoing "${command.label}":`, error);
+      return false;
+    } finally {
+      this.notifyProgressUpdate();
+      this.notifyCurrentCorrectionChange();
+    }
+  }
+
+  canUndo(): boolean {
+    return !!this.session && this.history.canUndo();
+  }
+
+  canRedo(): boolean {
+    return !!this.session && this.history.canRedo();
+  }
+
+  /**
+   * Labels of the actions the next undo and redo would affect
+   */
+  getHistoryLabels(): { undo: string | null; redo: string | null } {
+    return this.history.nextLabels();
+  }
+
+  /**
+   * Copy a correction for the history
+   */
+  private snapshotCorrection(correction: CorrectionObject): CorrectionObject {
+    return { ...correction };
+  }
+
+  /**
+   * Snapshot a correction and its siblings, since applying it rebases their offsets
+   */
+  private snapshotParagraphCorrections(correction: CorrectionObject): CorrectionObject[] {
+    if (!this.session) return [];
+    return this.session.corrections
+      .filter((c) => isSameParagraph(c, correction))
+      .map((c) => this.snapshotCorrection(c));
+  }
+
+  private recordHistory(
+    label: string,
+    correction: CorrectionObject,
+    correctionsBefore: CorrectionObject[],
+    edit: AppliedEdit | null
+  ): void {
+    const correctionsAfter =
+      edit === null
+        ? [this.snapshotCorrection(correction)]
+        : this.snapshotParagraphCorrections(correction);
+    const step: ReviewHistoryStep = {
+      correctionId: correction.id,
+      edit,
+      correctionsBefore,
+      correctionsAfter,
+    };
+    this.history.record(label, step);
+  }
+
+  /**
+   * Put a step's document edit and correction state back to one side of the change.
+   * Undo reverses the edit on its own span and redo makes it again, so the rest of the
+   * paragraph (and any other correction applied there since) is left alone.
+   */
+  private async restoreHistoryStep(
+    step: ReviewHistoryStep,
+    side: "before" | "after"
+  ): Promise<void> {
+    if (!this.session) return;
+
+    const correction = this.session.corrections.find((c) => c.id === step.correctionId);
+    if (!correction) {
+      throw new Error(`Correction ${step.correctionId} is no longer part of the session`);
+    }
+
+    if (step.edit && side === "before") {
+      await this.revertEdit(correction, step.edit);
+    } else if (step.edit) {
+      this.restoreSnapshots(step.correctionsBefore);
+      step.edit = await this.applyToDocument(correction);
+      await this.removeHighlight(correction.id);
     }
+
+    this.restoreSnapshots(side === "before" ? step.correctionsBefore : step.correctionsAfter);
+  }
+
+  private restoreSnapshots(snapshots: CorrectionObject[]): void {
+    snapshots.forEach((snapshot) => {
+      const target = this.session!.corrections.find((c) => c.id === snapshot.id);
+      if (target) {
+        Object.assign(target, snapshot);
+      }
+    });
+  }
+
+  /**
+   * Reverse an accepted correction on the span it edited: put the replaced text back and
+   * restore the font or paragraph style it changed. Change tracking stays as the review
+   * set it, so in tracked mode the reversal shows up as revisions like the edit did.
+   */
+  private async revertEdit(correction: CorrectionObject, edit: AppliedEdit): Promise<void> {
+    await Word.run(async (context) => {
+      const paragraphs = context.document.body.paragraphs;
+      paragraphs.load("items");
+      await context.sync();
+
+      const wordParagraph = this.getWordParagraph(paragraphs, correction);
+      if (!wordParagraph) {
+        throw new Error(`Paragraph ${correction.paragraphNumber} not found in document`);
+      }
+
+      if (edit.styleBefore !== null) {
+        wordParagraph.style = edit.styleBefore;
+        await context.sync();
+        return;
+      }
+
+      const characters = loadParagraphCharacters(wordParagraph);
+      await context.sync();
+
+      const spanEnd = edit.start + edit.textAfter.length;
+      if (wordParagraph.text.trim().substring(edit.start, spanEnd) !== edit.textAfter) {
+        throw new Error(
+          `Paragraph ${correction.paragraphNumber} changed where correction ${correction.id} was applied - it can't be undone`
+        );
+      }
+      const span = buildRangeForOffsets(wordParagraph, characters, edit.start, spanEnd);
+      if (!span) {
+        throw new Error(`Could not resolve range for undo at ${edit.start}-${spanEnd}`);
+      }
+
+      // A formatting-only edit left the text as it was
+      let restored: Word.Range | null = span;
+      if (edit.textBefore !== edit.textAfter) {
+        if (edit.textBefore === "") {
+          span.delete();
+          restored = null;
+        } else if (edit.textAfter === "") {
+          restored = span.insertText(edit.textBefore, Word.InsertLocation.start);
+        } else {
+          restored = span.insertText(edit.textBefore, Word.InsertLocation.replace);
+        }
+      }
+      if (restored && edit.fontBefore) {
+        Object.assign(restored.font, edit.fontBefore);
+      }
+      await context.sync();
+    });
   }
 
   /**
@@ -880,15 +1649,30 @@ export class CorrectionReviewManager {
    * Private helper to move to next correction and update UI
    */
   private moveToNext(): void {
-    this.navigateNext();
-    
+    if (!this.session) return;
+
+    // Continue with the next pending correction, wrapping around to any left earlier
+    const { corrections, currentIndex } = this.session;
+    const isPending = (index: number) => corrections[index].status === "pending";
+    let nextIndex = -1;
+    for (let i = currentIndex + 1; i < corrections.length && nextIndex === -1; i++) {
+      if (isPending(i)) nextIndex = i;
+    }
+    for (let i = 0; i < currentIndex && nextIndex === -1; i++) {
+      if (isPending(i)) nextIndex = i;
+    }
+    // Past the end when nothing is pending, so getCurrentCorrection() reports completion
+    this.session.currentIndex = nextIndex === -1 ? corrections.length : nextIndex;
+    this.notifyProgressUpdate();
+    this.notifyCurrentCorrectionChange();
+
     // If we've reached the end, check for skipped corrections
-    if (this.session && this.session.currentIndex >= this.session.corrections.length) {
+    if (this.session.currentIndex >= this.session.corrections.length) {
       const skipped = this.getSkippedCorrections();
       if (skipped.length > 0) {
         console.log(`Review complete. ${skipped.length} corrections were skipped.`);
       } else {
-        console.log('Review complete. All corrections processed.');
+        console.log("Review complete. All corrections processed.");
       }
     }
   }
@@ -900,6 +1684,56 @@ export class CorrectionReviewManager {
     if (this.onProgressUpdate) {
       this.onProgressUpdate(this.getProgress());
     }
+    this.schedulePersist();
+  }
+
+  /**
+   * Save the session to the document shortly after the latest change, so bursts such as
+   * "Accept All" are written once
+   */
+  private schedulePersist(): void {
+    if (!this.session) return;
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+    }
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persistSession();
+    }, 500);
+  }
+
+  /**
+   * Serialize the session into the document settings
+   */
+  private async persistSession(): Promise<void> {
+    if (!this.session) return;
+
+    const persisted: PersistedReviewSession = {
+      version: PERSISTED_SESSION_VERSION,
+      source: this.session.source,
+      applyMode: this.session.applyMode,
+      granularity: this.session.granularity || undefined,
+      previousTrackingMode: this.session.previousTrackingMode,
+      corrections: this.session.corrections.map((c) => ({
+        id: c.id,
+        status: c.status,
+        decidedAt: c.decidedAt,
+        startOffset: c.startOffset,
+        endOffset: c.endOffset,
+      })),
+      currentIndex: this.session.currentIndex,
+      startTime: this.session.startTime.toISOString(),
+      savedAt: new Date().toISOString(),
+    };
+
+    try {
+      await writePersistedSession(persisted);
+      console.log(
+        `💾 Saved review session to document (${persisted.corrections.length} corrections)`
+      );
+    } catch (error) {
+      console.warn("⚠️ Could not save review session to document:", error);
+    }
   }
 
   /**
@@ -0,0 +1,135 @@
+/**
+ * Before/after previews of corrections for the task pane
+ * Splits text into context, deleted and inserted segments around the affected span
+ */
+
+import { DIFF_EQUAL, DIFF_DELETE, DIFF_INSERT } from "diff-match-patch";
+import { CorrectionObject } from "./documentMapping";
+import { computeTextDiff } from "./textDiff";
+
+export const DEFAULT_PREVIEW_CONTEXT = 30;
+
+const ELLIPSIS = "\u2026";
+
+export type PreviewSegmentKind = "context" | "deleted" | "inserted" | "formatted";
+
+export interface PreviewSegment {
+  kind: PreviewSegmentKind;
+  text: string;
+}
+
+/**
+ * The two sides of a preview: the text as it is in Word and as it would be with the change
+ */
+export interface PreviewSides {
+  before: PreviewSegment[];
+  after: PreviewSegment[];
+}
+
+/**
+ * Render preview segments as plain text
+ */
+export function previewText(segments: PreviewSegment[]): string {
+  return segments.map((segment) => segment.text).join("");
+}
+
+/**
+ * Preview of a single correction with up to contextLength characters on either side
+ */
+export function previewCorrection(
+  correction: CorrectionObject,
+  contextLength: number = DEFAULT_PREVIEW_CONTEXT
+): PreviewSides {
+  const text = correction.originalText;
+  const start = Math.max(0, Math.min(correction.startOffset, text.length));
+  const end = Math.max(start, Math.min(correction.endOffset, text.length));
+
+  const contextStart = Math.max(0, start - contextLength);
+  const contextEnd = Math.min(text.length, end + contextLength);
+  const prefix: PreviewSegment = {
+    kind: "context",
+    text: (contextStart > 0 ? ELLIPSIS : "") + text.substring(contextStart, start),
+  };
+  const suffix: PreviewSegment = {
+    kind: "context",
+    text: text.substring(end, contextEnd) + (contextEnd < text.length ? ELLIPSIS : ""),
+  };
+  const changed = text.substring(start, end);
+
+  let before: PreviewSegment;
+  let after: PreviewSegment;
+  switch (correction.changeType) {
+    case "deletion":
+      before = { kind: "deleted", text: changed };
+      after = { kind: "inserted", text: "" };
+      break;
+    case "addition":
+      before = { kind: "deleted", text: "" };
+      after = { kind: "inserted", text: correction.diffText };
+      break;
+    case "modification":
+      before = { kind: "deleted", text: changed };
+      after = { kind: "inserted", text: correction.replacementText || "" };
+      break;
+    default:
+      // Formatting and style changes keep the text; the span is marked on both sides
+      before = { kind: "context", text: changed };
+      after = { kind: "formatted", text: changed };
+  }
+
+  const compact = (segments: PreviewSegment[]) => segments.filter((segment) => segment.text !== "");
+  return {
+    before: compact([prefix, before, suffix]),
+    after: compact([prefix, after, suffix]),
+  };
+}
+
+/**
+ * Clip an unchanged run to contextLength characters next to the changes around it
+ */
+function clipContext(
+  text: string,
+  contextLength: number,
+  isFirst: boolean,
+  isLast: boolean
+): string {
+  if (isFirst && isLast) {
+    return text;
+  }
+  const keepBefore = isFirst ? 0 : contextLength;
+  const keepAfter = isLast ? 0 : contextLength;
+  if (text.length <= keepBefore + keepAfter + 1) {
+    return text;
+  }
+  const head = text.substring(0, keepBefore);
+  const tail = text.substring(text.length - keepAfter);
+  return `${head}${ELLIPSIS}${tail}`;
+}
+
+/**
+ * Preview of a whole paragraph: its text as found in Word against the corrected text,
+ * word by word, with unchanged runs clipped to contextLength characters around each change
+ */
+export function previewParagraph(
+  originalText: string,
+  correctedText: string,
+  contextLength: number = DEFAULT_PREVIEW_CONTEXT
+): PreviewSides {
+  const diffs = computeTextDiff(originalText, correctedText, "word");
+  const before: PreviewSegment[] = [];
+  const after: PreviewSegment[] = [];
+
+  diffs.forEach(([operation, text], index) => {
+    if (operation === DIFF_EQUAL) {
+      const clipped = clipContext(text, contextLength, index === 0, index === diffs.length - 1);
+      before.push({ kind: "context", text: clipped });
+      after.push({ kind: "context", text: clipped });
+    } else if (operation === DIFF_DELETE) {
+      before.push({ kind: "deleted", text });
+    } else if (operation === DIFF_INSERT) {
+      after.push({ kind: "inserted", text });
+    }
+  });
+
+  return { before, after };
+}
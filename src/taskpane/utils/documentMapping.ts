@@ -1,35 +1,68 @@
 /**
  * Document mapping utilities for granular Word Document correction review
- * Core engine for character-level diff and correction generation
+ * Core engine for character-level diff and correction generation.
+ * Works on plain paragraph texts with no Office dependency; wordAdapter.ts feeds it from a live document.
  */
 
-import { documentSchema, paragraphSchema } from './jsonSchema';
-import { z } from 'zod';
-import { diff_match_patch } from 'diff-match-patch';
+import { documentSchema, paragraphSchema } from "./jsonSchema";
+import { z } from "zod";
+import { diff_match_patch, DIFF_EQUAL, DIFF_DELETE } from "diff-match-patch";
+import { alignParagraphs, AlignmentOutcome, ParagraphAlignment } from "./paragraphAlignment";
+import {
+  parseMarkedText,
+  stylesPerCharacter,
+  InlineStyle,
+  INLINE_STYLES,
+  ParsedMarkedText,
+} from "./markerParser";
+import { StyleMap, DEFAULT_STYLE_MAP, describeStyleMapping, paragraphHasStyle } from "./styleMap";
+import { computeTextDiff, Diff, DiffGranularity, DEFAULT_GRANULARITY } from "./textDiff";
+import { StartupOptions, StartupPhase, yieldToEventLoop } from "./startupProgress";
 
 export type DocumentData = z.infer<typeof documentSchema>;
 export type ParagraphData = z.infer<typeof paragraphSchema>;
 
-
-
 /**
  * Remove markup tags from text for clean comparison
  */
 function removeMarkupTags(text: string): string {
-  // Remove tags like <{tag_name}>, <[tag]>, <[/tag]>, and [tag] without angle brackets
-  return text
-    .replace(/<\{[^}]+\}>\s*/g, '') // Remove style tags like <{ch_head}>
-    .replace(/<\[[^\]]+\]>/g, '') // Remove formatting tags like <[b]>, <[/b]>
-    .replace(/\[[^\]]+\]/g, '') // Remove tags without angle brackets like [endash], [emdash]
-    .trim();
+  // Remove tags like <{tag_name}>, <[b]>, <[/b]> and expand entities like [endash], <[quot_right]>
+  return parseMarkedText(text).text;
 }
 
+/**
+ * Report marker entities the registry doesn't know, so they don't silently vanish from the diff
+ */
+function collectMarkerWarnings(documentData: DocumentData): string[] {
+  const warnings: string[] = [];
+  for (const paragraph of documentData.paragraphs) {
+    const unknown = [
+      ...parseMarkedText(paragraph.input_with_markers).unknownMarkers,
+      ...parseMarkedText(paragraph.latest_edited_text).unknownMarkers,
+    ].filter((marker, index, all) => all.indexOf(marker) === index);
 
+    if (unknown.length > 0) {
+      warnings.push(
+        `Paragraph ${paragraph.paragraph_number} (${paragraph.word_native_para_id}): unknown marker(s) ${unknown.join(", ")}`
+      );
+    }
+  }
+  return warnings;
+}
 
 // ============================================================================
 // NEW INTERACTIVE CORRECTION REVIEW SYSTEM
 // ============================================================================
 
+/**
+ * The Word paragraph text a correction was computed against and its span in that text
+ */
+export interface CorrectionOrigin {
+  text: string;
+  startOffset: number;
+  endOffset: number;
+}
+
 /**
  * Represents a single correction that can be applied to the document
  */
@@ -37,17 +70,83 @@ export interface CorrectionObject {
   id: string;
   paragraphNumber: number;
   wordNativeParaId: string;
-  originalText: string;        // Clean text from Word document
-  correctedText: string;       // Clean text from JSON latest_edited_text
-  changeType: 'addition' | 'deletion' | 'modification';
-  startOffset: number;         // Character offset within paragraph
-  endOffset: number;           // Character offset within paragraph
-  wordRange?: Word.Range;      // Mapped Word document range
-  status: 'pending' | 'applied' | 'rejected' | 'skipped';
-  diffText: string;            // The specific text that changed
-  suggestion: string;          // Human-readable suggestion like "apple (remove l)"
-  actionDescription: string;   // Description of the action like "remove l", "add s", "change to 'apple'"
-  errorType: 'Missing' | 'Extra' | 'Modified'; // Error categorization for text differences
+  originalText: string; // Clean text from Word document
+  correctedText: string; // Clean text from JSON latest_edited_text
+  changeType: "addition" | "deletion" | "modification" | "formatting" | "style";
+  startOffset: number; // Character offset within paragraph
+  endOffset: number; // Character offset within paragraph
+  status: "pending" | "applied" | "rejected" | "skipped";
+  decidedAt?: string; // ISO time of the last accept/reject/skip decision
+  origin?: CorrectionOrigin; // Where the correction was found; unlike the offsets above, never rebased
+  diffText: string; // The specific text that changed (for modifications, the text being replaced)
+  replacementText?: string; // New text for 'modification' corrections
+  suggestion: string; // Human-readable suggestion like "apple (remove l)"
+  actionDescription: string; // Description of the action like "remove l", "add s", "change to 'apple'"
+  errorType: "Missing" | "Extra" | "Modified" | "Formatting" | "Style"; // Error categorization for text differences
+  formatting?: FormattingChange; // Set for 'formatting' corrections
+  paragraphStyle?: ParagraphStyleChange; // Set for 'style' corrections
+  wordParagraphIndex?: number; // Index of the mapped paragraph in the Word body
+  mappingStrategy?: ParagraphMappingStrategy; // How the JSON paragraph was matched to Word
+}
+
+/**
+ * A character formatting change: set (value true) or remove (value false) an inline style
+ */
+export interface FormattingChange {
+  style: InlineStyle;
+  value: boolean;
+}
+
+/**
+ * A paragraph style change requested by a block marker like <{h2}>
+ */
+export interface ParagraphStyleChange {
+  marker: string; // Marker name without brackets, e.g. "h2"
+  builtIn?: string; // Built-in Word style name to apply, e.g. "Heading2"
+  styleName?: string; // Custom style name to apply
+}
+
+/**
+ * Options for correction generation
+ */
+export interface CorrectionOptions extends StartupOptions {
+  styleMap?: StyleMap; // Marker → Word style, defaults to DEFAULT_STYLE_MAP
+  granularity?: DiffGranularity; // Diff unit for text corrections, defaults to DEFAULT_GRANULARITY
+  // Diff the JSON's original_text_no_markers instead of the Word text and keep style corrections
+  // the paragraph already has, so a saved session's corrections come out as they were found
+  // even after some of them were applied
+  fromJsonOriginal?: boolean;
+}
+
+/**
+ * Paragraphs diffed between progress reports (and chances to cancel)
+ */
+const DIFF_PROGRESS_INTERVAL = 10;
+
+/**
+ * How a JSON paragraph was matched to a Word paragraph, in order of preference
+ */
+export type ParagraphMappingStrategy = "paraId" | "exactText" | "partialText";
+
+/**
+ * Mapping outcome for one alignment step between JSON and Word paragraphs
+ */
+export interface ParagraphMappingResult {
+  outcome: AlignmentOutcome;
+  paragraphNumbers: number[]; // JSON paragraph numbers (empty when inserted in Word)
+  wordNativeParaIds: string[]; // Native IDs of those JSON paragraphs
+  wordParagraphIndexes: number[]; // Word paragraph indexes (empty when missing from Word)
+  strategy: ParagraphMappingStrategy | null; // Set for matched paragraphs only
+  similarity: number;
+}
+
+/**
+ * Result of processing the JSON against the open document
+ */
+export interface CorrectionProcessingResult {
+  corrections: CorrectionObject[];
+  paragraphMappings: ParagraphMappingResult[];
+  warnings: string[]; // Problems in the JSON worth a reviewer's attention, e.g. unknown entities
 }
 
 /**
@@ -55,7 +154,7 @@ export interface CorrectionObject {
  * Provides clear, actionable feedback with context
  */
 function generateCorrectionSuggestion(
-  errorType: 'Missing' | 'Extra' | 'Modified',
+  errorType: "Missing" | "Extra" | "Modified",
   diffText: string,
   wordText: string,
   _jsonCorrectedText: string,
@@ -63,27 +162,39 @@ function generateCorrectionSuggestion(
   endOffset: number
 ): string {
   const contextRadius = 15;
-  
-  if (errorType === 'Missing') {
+
+  if (errorType === "Missing") {
     // Text should be added to Word document
-    const _beforeContext = wordText.substring(Math.max(0, startOffset - contextRadius), startOffset);
-    const _afterContext = wordText.substring(startOffset, Math.min(wordText.length, startOffset + contextRadius));
-    
+    const _beforeContext = wordText.substring(
+      Math.max(0, startOffset - contextRadius),
+      startOffset
+    );
+    const _afterContext = wordText.substring(
+      startOffset,
+      Math.min(wordText.length, startOffset + contextRadius)
+    );
+
     if (diffText.length === 1) {
       // Single character addition
       return `Add "${diffText}"`;
-    } else if (diffText.trim() === ',') {
+    } else if (diffText.trim() === ",") {
       return `Add comma`;
-    } else if (diffText.trim() === '.') {
+    } else if (diffText.trim() === ".") {
       return `Add period`;
     } else {
       return `Add "${diffText.trim()}"`;
     }
-  } else if (errorType === 'Extra') {
+  } else if (errorType === "Extra") {
     // Text should be removed from Word document
-    const _beforeContext = wordText.substring(Math.max(0, startOffset - contextRadius), startOffset);
-    const _afterContext = wordText.substring(endOffset, Math.min(wordText.length, endOffset + contextRadius));
-    
+    const _beforeContext = wordText.substring(
+      Math.max(0, startOffset - contextRadius),
+      startOffset
+    );
+    const _afterContext = wordText.substring(
+      endOffset,
+      Math.min(wordText.length, endOffset + contextRadius)
+    );
+
     if (diffText.length === 1) {
       // Single character removal
       return `Remove "${diffText}"`;
@@ -103,25 +214,31 @@ function generateCorrectionSuggestion(
 function generateLegacyCorrectionSuggestion(
   originalText: string,
   _correctedText: string,
-  changeType: 'addition' | 'deletion' | 'modification',
+  changeType: "addition" | "deletion" | "modification",
   diffText: string,
   startOffset: number,
   endOffset: number
 ): { suggestion: string; actionDescription: string } {
   const contextRadius = 20;
-  const beforeContext = originalText.substring(Math.max(0, startOffset - contextRadius), startOffset);
-  const afterContext = originalText.substring(endOffset, Math.min(originalText.length, endOffset + contextRadius));
-  
-  let suggestion = '';
-  let actionDescription = '';
-  
-  if (changeType === 'deletion') {
+  const beforeContext = originalText.substring(
+    Math.max(0, startOffset - contextRadius),
+    startOffset
+  );
+  const afterContext = originalText.substring(
+    endOffset,
+    Math.min(originalText.length, endOffset + contextRadius)
+  );
+
+  let suggestion = "";
+  let actionDescription = "";
+
+  if (changeType === "deletion") {
     suggestion = `Remove "${diffText}"`;
     actionDescription = `remove "${diffText}"`;
-  } else if (changeType === 'addition') {
+  } else if (changeType === "addition") {
     suggestion = `Add "${diffText}"`;
     actionDescription = `add "${diffText}"`;
-  } else if (changeType === 'modification') {
+  } else if (changeType === "modification") {
     // For modifications, we need to determine what to replace with
     suggestion = `Change "${diffText}"`;
     actionDescription = `change "${diffText}"`;
@@ -130,221 +247,538 @@ function generateLegacyCorrectionSuggestion(
     suggestion = `Change "${diffText}"`;
     actionDescription = `change "${diffText}"`;
   }
-  
+
   // Add context if available
   if (beforeContext || afterContext) {
     const contextStr = `${beforeContext}[${diffText}]${afterContext}`;
     suggestion += ` in "${contextStr}"`;
   }
-  
+
   return { suggestion, actionDescription };
 }
 
 /**
- * Process document data to generate correction objects for interactive review
- * Maps paragraphs by original_text_no_markers and performs character-level diff
+ * Build a lookup from native paragraph ID to Word paragraph index
  */
-export async function processCorrectionData(
-  context: Word.RequestContext,
-  documentData: DocumentData
-): Promise<CorrectionObject[]> {
-  const paragraphs = context.document.body.paragraphs;
-  paragraphs.load("items/text");
-  await context.sync();
+export function buildParagraphIdIndex(paragraphIds: (string | null)[]): {
+  [paraId: string]: number;
+} {
+  const index: { [paraId: string]: number } = {};
+  paragraphIds.forEach((paraId, paragraphIndex) => {
+    if (paraId && index[paraId] === undefined) {
+      index[paraId] = paragraphIndex;
+    }
+  });
+  return index;
+}
 
+/**
+ * Find the Word paragraph index for a correction: native ID first, then the index
+ * recorded during mapping, then the JSON paragraph number
+ */
+export function findWordParagraphIndex(
+  paragraphIdIndex: { [paraId: string]: number },
+  correction: Pick<CorrectionObject, "wordNativeParaId" | "wordParagraphIndex" | "paragraphNumber">,
+  paragraphCount: number
+): number | null {
+  const byId = paragraphIdIndex[correction.wordNativeParaId.toUpperCase()];
+  if (byId !== undefined) {
+    return byId;
+  }
+  if (
+    correction.wordParagraphIndex !== undefined &&
+    correction.wordParagraphIndex < paragraphCount
+  ) {
+    return correction.wordParagraphIndex;
+  }
+  const byNumber = correction.paragraphNumber - 1;
+  return byNumber >= 0 && byNumber < paragraphCount ? byNumber : null;
+}
+
+/**
+ * A paragraph of the document under review, as read from Word or any other source
+ */
+export interface DocumentParagraph {
+  text: string;
+  paraId?: string | null; // Native paragraph ID (w14:paraId), when known
+  style?: string; // Current paragraph style name
+  styleBuiltIn?: string; // Current built-in style, e.g. "Heading2"
+  inlineStyles?: InlineStyle[][]; // Direct inline styles of each character of text, when the reader knows them
+}
+
+/**
+ * Generate correction objects for interactive review from the pipeline JSON and the document's paragraphs.
+ * Aligns paragraphs by native paragraph ID and text similarity, then diffs at the requested granularity
+ */
+export async function generateCorrections(
+  documentData: DocumentData,
+  documentParagraphs: DocumentParagraph[],
+  options: CorrectionOptions = {}
+): Promise<CorrectionProcessingResult> {
+  const styleMap = options.styleMap || DEFAULT_STYLE_MAP;
+  const granularity = options.granularity || DEFAULT_GRANULARITY;
+  const { onProgress, cancellation } = options;
   const corrections: CorrectionObject[] = [];
+  const paragraphMappings: ParagraphMappingResult[] = [];
+  const report = (phase: StartupPhase, completed: number, total: number) => {
+    if (onProgress) onProgress({ phase, completed, total, corrections: corrections.length });
+  };
 
-  console.log('\n=== CHARACTER-LEVEL DIFF PROCESSING ===');
+  report("mapping", 0, documentParagraphs.length);
+  if (cancellation) cancellation.throwIfCancelled();
+
+  const warnings = collectMarkerWarnings(documentData);
+  warnings.forEach((warning) => console.warn(`⚠️ ${warning}`));
+
+  console.log(`\n=== ${granularity.toUpperCase()}-LEVEL DIFF PROCESSING ===`);
   console.log(`Total JSON paragraphs: ${documentData.paragraphs.length}`);
-  console.log(`Total Word paragraphs: ${paragraphs.items.length}`);
+  console.log(`Total Word paragraphs: ${documentParagraphs.length}`);
+
+  // Step 1: Align the two paragraph lists as a whole so every paragraph is used at most once
+  const alignment = alignParagraphs(
+    documentData.paragraphs.map((p) => ({
+      text: p.original_text_no_markers,
+      paraId: p.word_native_para_id,
+    })),
+    documentParagraphs.map((p) => ({ text: p.text, paraId: p.paraId || null }))
+  );
+  report("mapping", documentParagraphs.length, documentParagraphs.length);
+
+  for (let entryIndex = 0; entryIndex < alignment.length; entryIndex++) {
+    const entry = alignment[entryIndex];
+    if (entryIndex % DIFF_PROGRESS_INTERVAL === 0) {
+      report("diffing", entryIndex, alignment.length);
+      await yieldToEventLoop();
+      if (cancellation) cancellation.throwIfCancelled();
+    }
+
+    const mapping = describeAlignment(entry, documentData.paragraphs);
+    paragraphMappings.push(mapping);
+
+    if (entry.outcome !== "matched") {
+      console.log(
+        `⚠️ Alignment ${entry.outcome}: JSON paragraphs [${mapping.paragraphNumbers.join(", ")}] ↔ Word paragraphs [${entry.wordIndexes.join(", ")}] - no corrections generated`
+      );
+      continue;
+    }
+
+    const jsonParagraph = documentData.paragraphs[entry.jsonIndexes[0]];
+    const paragraphIndex = entry.wordIndexes[0];
+    const strategy = mapping.strategy!;
+    const documentParagraph = documentParagraphs[paragraphIndex];
 
-  for (const jsonParagraph of documentData.paragraphs) {
     console.log(`\n--- Processing Paragraph ${jsonParagraph.paragraph_number} ---`);
     console.log(`JSON original_text_no_markers: "${jsonParagraph.original_text_no_markers}"`);
     console.log(`JSON latest_edited_text (raw): "${jsonParagraph.latest_edited_text}"`);
-    
-    // Step 1: Map paragraph by original_text_no_markers
-    let wordParagraph = await findWordParagraphByText(
-      paragraphs.items, 
-      jsonParagraph.original_text_no_markers
+    console.log(
+      `✅ Mapped paragraph ${jsonParagraph.paragraph_number} to Word paragraph [${paragraphIndex}] by ${strategy}`
     );
 
-    // Fallback: Use paragraph index if text-based mapping fails
-    if (!wordParagraph) {
-      const paragraphIndex = jsonParagraph.paragraph_number - 1;
-      if (paragraphIndex >= 0 && paragraphIndex < paragraphs.items.length) {
-        wordParagraph = paragraphs.items[paragraphIndex];
-        console.log(`🔄 Using index-based fallback for paragraph ${jsonParagraph.paragraph_number}`);
-        console.log(`   Mapped to Word paragraph [${paragraphIndex}]: "${wordParagraph.text.trim().substring(0, 80)}..."`);
-      } else {
-        console.log(`❌ Could not map paragraph ${jsonParagraph.paragraph_number} - index out of bounds`);
-        console.log(`   Looking for: "${jsonParagraph.original_text_no_markers}"`);
-        console.log(`   Available Word paragraphs: ${paragraphs.items.length}`);
-        continue;
-      }
-    }
-
-    console.log(`✅ Mapped paragraph ${jsonParagraph.paragraph_number} successfully`);
-
     // Step 2: Get texts for comparison
-    const wordText = wordParagraph.text.trim();
+    const wordText = (
+      options.fromJsonOriginal ? jsonParagraph.original_text_no_markers : documentParagraph.text
+    ).trim();
+    const leadingWhitespace =
+      documentParagraph.text.length - documentParagraph.text.replace(/^\s+/, "").length;
+    const wordStyles =
+      documentParagraph.inlineStyles && !options.fromJsonOriginal
+        ? documentParagraph.inlineStyles.slice(
+            leadingWhitespace,
+            leadingWhitespace + wordText.length
+          )
+        : null;
     const jsonCorrectedText = removeMarkupTags(jsonParagraph.latest_edited_text).trim();
-    
+
     console.log(`📄 Word document text: "${wordText}"`);
     console.log(`✏️  JSON corrected text: "${jsonCorrectedText}"`);
     console.log(`🔍 Are they identical? ${wordText === jsonCorrectedText}`);
 
-    // Step 3: Skip if texts are identical
-    if (wordText === jsonCorrectedText) {
-      console.log('✓ No differences found - texts are identical');
-      continue;
+    // Step 3: Diff the texts (identical texts can still differ in formatting)
+    const diffs = computeTextDiff(wordText, jsonCorrectedText, granularity);
+    if (wordText !== jsonCorrectedText) {
+      console.log(`🔄 Texts differ - creating ${granularity}-level error corrections...`);
+      console.log(
+        `📊 Found ${diffs.length} diff operations for paragraph ${jsonParagraph.paragraph_number}`
+      );
     }
 
-    console.log(`🔄 Texts differ - creating granular error corrections...`);
-
-    // Step 4: Create individual corrections for each specific change
-    const dmp = new diff_match_patch();
-    const diffs = dmp.diff_main(wordText, jsonCorrectedText);
-    dmp.diff_cleanupSemantic(diffs);
-    dmp.diff_cleanupEfficiency(diffs);
-    
-    console.log(`📊 Found ${diffs.length} diff operations for paragraph ${jsonParagraph.paragraph_number}`);
-    
-    // Track position in original text for offset calculation
-    let currentOffset = 0;
-    let correctionIndex = 0;
-    
-    for (const [operation, text] of diffs) {
-      if (operation === 0) {
-        // Equal text - just advance the offset
-        currentOffset += text.length;
-        continue;
-      }
-      
-      correctionIndex++;
-      const correctionId = `${jsonParagraph.word_native_para_id}-error-${correctionIndex}`;
-      
-      let changeType: 'addition' | 'deletion' | 'modification';
-      let suggestion: string;
-      let actionDescription: string;
-      let errorType: 'Missing' | 'Extra' | 'Modified';
-      let diffText: string;
-      let startOffset: number;
-      let endOffset: number;
-      
-      if (operation === -1) {
-        // Deletion
-        changeType = 'deletion';
-        errorType = 'Extra';
-        diffText = text;
-        startOffset = currentOffset;
-        endOffset = currentOffset + text.length;
-        suggestion = `Delete "${text.trim()}"`;
-        actionDescription = `Remove extra text: "${text.trim()}"`;
-        
-        // Advance offset for deleted text
-        currentOffset += text.length;
-      } else if (operation === 1) {
-        // Addition
-        changeType = 'addition';
-        errorType = 'Missing';
-        diffText = text;
-        startOffset = currentOffset;
-        endOffset = currentOffset; // Addition has zero-width in original
-        suggestion = `Add "${text.trim()}"`;
-        actionDescription = `Insert missing text: "${text.trim()}"`;
-        
-        // Don't advance offset for additions (they don't exist in original)
-      }
-      
-      const correction: CorrectionObject = {
-        id: correctionId,
-        paragraphNumber: jsonParagraph.paragraph_number,
-        wordNativeParaId: jsonParagraph.word_native_para_id,
-        originalText: wordText,
-        correctedText: jsonCorrectedText,
-        changeType: changeType!,
-        startOffset: startOffset!,
-        endOffset: endOffset!,
-        status: 'pending',
-        diffText: diffText!,
-        suggestion: suggestion!,
-        actionDescription: actionDescription!,
-        errorType: errorType!
-      };
+    // Step 4: Create individual corrections for each specific text and formatting change
+    const paragraphContext: ParagraphCorrectionContext = {
+      jsonParagraph,
+      wordText,
+      wordStyles,
+      correctedText: jsonCorrectedText,
+      wordParagraphIndex: paragraphIndex,
+      mappingStrategy: strategy,
+    };
+    const paragraphCorrections = [
+      ...createStyleCorrections(
+        paragraphContext,
+        documentParagraph,
+        styleMap,
+        !!options.fromJsonOriginal
+      ),
+      ...createTextCorrections(paragraphContext, diffs),
+      ...createFormattingCorrections(paragraphContext, diffs),
+    ];
 
-      corrections.push(correction);
-      console.log(`✅ Created ${changeType} correction: "${suggestion}" at offset ${startOffset}-${endOffset}`);
+    if (paragraphCorrections.length === 0) {
+      console.log("✓ No differences found - text, formatting and style are identical");
+      continue;
     }
-    
-    console.log(`📝 Created ${correctionIndex} individual corrections for paragraph ${jsonParagraph.paragraph_number}`);
+    paragraphCorrections.forEach((correction) => {
+      correction.origin = {
+        text: wordText,
+        startOffset: correction.startOffset,
+        endOffset: correction.endOffset,
+      };
+    });
+
+    corrections.push(...paragraphCorrections);
+    console.log(
+      `📝 Created ${paragraphCorrections.length} individual corrections for paragraph ${jsonParagraph.paragraph_number}`
+    );
   }
 
+  report("diffing", alignment.length, alignment.length);
+
   console.log(`\n=== Processing Complete: Created ${corrections.length} corrections ===`);
+  return { corrections, paragraphMappings, warnings };
+}
+
+/**
+ * Everything the correction builders need to know about one mapped paragraph
+ */
+interface ParagraphCorrectionContext {
+  jsonParagraph: ParagraphData;
+  wordText: string; // Trimmed Word paragraph text
+  wordStyles: InlineStyle[][] | null; // Inline styles of wordText's characters, if the document reports them
+  correctedText: string; // Trimmed JSON latest_edited_text without markers
+  wordParagraphIndex: number;
+  mappingStrategy: ParagraphMappingStrategy;
+}
+
+/**
+ * Create a paragraph-level style correction when the block marker of latest_edited_text
+ * maps to a Word style the paragraph doesn't have yet (or has from applying it, with keepApplied)
+ */
+function createStyleCorrections(
+  paragraph: ParagraphCorrectionContext,
+  currentStyle: { style?: string; styleBuiltIn?: string },
+  styleMap: StyleMap,
+  keepApplied: boolean
+): CorrectionObject[] {
+  const { jsonParagraph, wordText, correctedText } = paragraph;
+  const marker = parseMarkedText(jsonParagraph.latest_edited_text).blockStyle;
+  if (!marker) {
+    return [];
+  }
+
+  const mapping = styleMap[marker];
+  if (!mapping) {
+    console.warn(
+      `⚠️ No Word style mapped for marker <{${marker}}> in paragraph ${jsonParagraph.paragraph_number}`
+    );
+    return [];
+  }
+  if (!keepApplied && paragraphHasStyle(mapping, currentStyle)) {
+    return [];
+  }
+
+  const styleLabel = describeStyleMapping(mapping);
+  console.log(
+    `✅ Created style correction: <{${marker}}> → "${styleLabel}" (currently "${currentStyle.style}")`
+  );
+  return [
+    {
+      id: `${jsonParagraph.word_native_para_id}-style`,
+      paragraphNumber: jsonParagraph.paragraph_number,
+      wordNativeParaId: jsonParagraph.word_native_para_id,
+      originalText: wordText,
+      correctedText,
+      changeType: "style",
+      startOffset: 0,
+      endOffset: wordText.length,
+      status: "pending",
+      diffText: `<{${marker}}>`,
+      suggestion: `Apply style "${styleLabel}"`,
+      actionDescription: `Set paragraph style from <{${marker}}> (currently "${currentStyle.style || "unknown"}")`,
+      errorType: "Style",
+      paragraphStyle: { marker, builtIn: mapping.builtIn, styleName: mapping.styleName },
+      wordParagraphIndex: paragraph.wordParagraphIndex,
+      mappingStrategy: paragraph.mappingStrategy,
+    },
+  ];
+}
+
+/**
+ * Create addition/deletion/modification corrections from the text diff of a paragraph.
+ * A deletion directly followed by an insertion (or vice versa) is one replacement.
+ */
+function createTextCorrections(
+  paragraph: ParagraphCorrectionContext,
+  diffs: Diff[]
+): CorrectionObject[] {
+  const { jsonParagraph, wordText, correctedText } = paragraph;
+  const corrections: CorrectionObject[] = [];
+
+  // Track position in original text for offset calculation
+  let currentOffset = 0;
+  let correctionIndex = 0;
+
+  for (let diffIndex = 0; diffIndex < diffs.length; diffIndex++) {
+    const [operation, text] = diffs[diffIndex];
+    if (operation === DIFF_EQUAL) {
+      // Equal text - just advance the offset
+      currentOffset += text.length;
+      continue;
+    }
+
+    correctionIndex++;
+    const correctionId = `${jsonParagraph.word_native_para_id}-error-${correctionIndex}`;
+
+    let changeType: "addition" | "deletion" | "modification";
+    let suggestion: string;
+    let actionDescription: string;
+    let errorType: "Missing" | "Extra" | "Modified";
+    let diffText: string;
+    let replacementText: string | undefined;
+    let startOffset: number;
+    let endOffset: number;
+
+    const next = diffs[diffIndex + 1];
+    const pairsWithNext = next !== undefined && next[0] !== DIFF_EQUAL && next[0] !== operation;
+
+    if (pairsWithNext) {
+      // Modification: coalesce the delete/insert pair into one replacement
+      const deletedText = operation === DIFF_DELETE ? text : next[1];
+      const insertedText = operation === DIFF_DELETE ? next[1] : text;
+      diffIndex++;
+
+      changeType = "modification";
+      errorType = "Modified";
+      diffText = deletedText;
+      replacementText = insertedText;
+      startOffset = currentOffset;
+      endOffset = currentOffset + deletedText.length;
+      suggestion = `Change '${deletedText.trim()}' to '${insertedText.trim()}'`;
+      actionDescription = `Replace "${deletedText.trim()}" with "${insertedText.trim()}"`;
+
+      // Advance offset past the replaced text
+      currentOffset += deletedText.length;
+    } else if (operation === DIFF_DELETE) {
+      // Deletion
+      changeType = "deletion";
+      errorType = "Extra";
+      diffText = text;
+      startOffset = currentOffset;
+      endOffset = currentOffset + text.length;
+      suggestion = `Delete "${text.trim()}"`;
+      actionDescription = `Remove extra text: "${text.trim()}"`;
+
+      // Advance offset for deleted text
+      currentOffset += text.length;
+    } else {
+      // Addition
+      changeType = "addition";
+      errorType = "Missing";
+      diffText = text;
+      startOffset = currentOffset;
+      endOffset = currentOffset; // Addition has zero-width in original
+      suggestion = `Add "${text.trim()}"`;
+      actionDescription = `Insert missing text: "${text.trim()}"`;
+
+      // Don't advance offset for additions (they don't exist in original)
+    }
+
+    corrections.push({
+      id: correctionId,
+      paragraphNumber: jsonParagraph.paragraph_number,
+      wordNativeParaId: jsonParagraph.word_native_para_id,
+      originalText: wordText,
+      correctedText,
+      changeType,
+      startOffset,
+      endOffset,
+      status: "pending",
+      diffText,
+      replacementText,
+      suggestion,
+      actionDescription,
+      errorType,
+      wordParagraphIndex: paragraph.wordParagraphIndex,
+      mappingStrategy: paragraph.mappingStrategy,
+    });
+    console.log(
+      `✅ Created ${changeType} correction: "${suggestion}" at offset ${startOffset}-${endOffset}`
+    );
+  }
+
   return corrections;
 }
 
+const STYLE_ADJECTIVES: { [style in InlineStyle]: string } = {
+  bold: "bold",
+  italic: "italic",
+  underline: "underlined",
+  superscript: "superscript",
+  subscript: "subscript",
+  strikeThrough: "struck through",
+};
+
+const STYLE_NOUNS: { [style in InlineStyle]: string } = {
+  bold: "bold",
+  italic: "italic",
+  underline: "underline",
+  superscript: "superscript",
+  subscript: "subscript",
+  strikeThrough: "strikethrough",
+};
+
 /**
- * Find Word paragraph that matches the given text content
+ * Styles of each Word text character according to input_with_markers.
+ * Characters that can't be matched to the marked input map to null (formatting unknown).
  */
-async function findWordParagraphByText(
-  wordParagraphs: Word.Paragraph[],
-  targetText: string
-): Promise<Word.Paragraph | null> {
-  const normalizedTarget = targetText.trim().replace(/\s+/g, ' ');
-  
-  // First try: Exact match
-  for (const paragraph of wordParagraphs) {
-    const paragraphText = paragraph.text.trim().replace(/\s+/g, ' ');
-    if (paragraphText === normalizedTarget) {
-      console.log(`✅ Found exact match for: "${normalizedTarget.substring(0, 50)}..."`);
-      return paragraph;
+export function originalStylesForText(
+  input: ParsedMarkedText,
+  wordText: string
+): (InlineStyle[] | null)[] {
+  const inputStyles = stylesPerCharacter(input.runs);
+  if (input.text === wordText) {
+    return inputStyles;
+  }
+
+  const styles: (InlineStyle[] | null)[] = [];
+  const dmp = new diff_match_patch();
+  let inputIndex = 0;
+  for (const [operation, text] of dmp.diff_main(input.text, wordText)) {
+    if (operation === DIFF_EQUAL) {
+      for (let i = 0; i < text.length; i++) {
+        styles.push(inputStyles[inputIndex++]);
+      }
+    } else if (operation === DIFF_DELETE) {
+      inputIndex += text.length;
+    } else {
+      for (let i = 0; i < text.length; i++) {
+        styles.push(null);
+      }
     }
   }
-  
-  // Second try: Partial match (contains significant portion)
-  console.log(`⚠️ No exact match found for: "${normalizedTarget}"`);
-  console.log(`🔍 Trying partial matching...`);
-  
-  for (const paragraph of wordParagraphs) {
-    const paragraphText = paragraph.text.trim().replace(/\s+/g, ' ');
-    
-    // Check if paragraph contains at least 80% of the target text (word-based)
-    const targetWords = normalizedTarget.split(' ');
-    const paragraphWords = paragraphText.split(' ');
-    
-    if (targetWords.length > 5) { // Only for longer paragraphs
-      const matchingWords = targetWords.filter(word => 
-        paragraphWords.some(pWord => pWord.toLowerCase().includes(word.toLowerCase()))
-      );
-      
-      const matchPercentage = matchingWords.length / targetWords.length;
-      if (matchPercentage >= 0.8) {
-        console.log(`📍 Found partial match (${Math.round(matchPercentage * 100)}%): "${paragraphText.substring(0, 50)}..."`);
-        return paragraph;
+  return styles;
+}
+
+/**
+ * Create formatting corrections for text that is unchanged but whose inline
+ * styles differ between the document (or input_with_markers) and latest_edited_text
+ */
+function createFormattingCorrections(
+  paragraph: ParagraphCorrectionContext,
+  diffs: Diff[]
+): CorrectionObject[] {
+  const { jsonParagraph, wordText, wordStyles, correctedText } = paragraph;
+  // Without the document's own formatting, the input markers say what the text looked like
+  const originalStyles =
+    wordStyles ||
+    originalStylesForText(parseMarkedText(jsonParagraph.input_with_markers), wordText);
+  const targetStyles = stylesPerCharacter(parseMarkedText(jsonParagraph.latest_edited_text).runs);
+
+  // Pairs of (Word offset, corrected offset) for characters the text diff left unchanged
+  const unchanged: { wordOffset: number; targetOffset: number }[] = [];
+  let wordOffset = 0;
+  let targetOffset = 0;
+  for (const [operation, text] of diffs) {
+    if (operation === DIFF_EQUAL) {
+      for (let i = 0; i < text.length; i++) {
+        unchanged.push({ wordOffset: wordOffset++, targetOffset: targetOffset++ });
       }
+    } else if (operation === DIFF_DELETE) {
+      wordOffset += text.length;
+    } else {
+      targetOffset += text.length;
     }
   }
-  
-  console.log(`❌ No suitable match found`);
-  return null;
+
+  const corrections: CorrectionObject[] = [];
+  let correctionIndex = 0;
+
+  for (const style of INLINE_STYLES) {
+    const spans: { start: number; end: number; value: boolean }[] = [];
+
+    for (const pair of unchanged) {
+      const before = originalStyles[pair.wordOffset];
+      const after = targetStyles[pair.targetOffset];
+      if (!before || !after) continue;
+
+      const hadStyle = before.indexOf(style) !== -1;
+      const wantsStyle = after.indexOf(style) !== -1;
+      if (hadStyle === wantsStyle) continue;
+
+      const last = spans[spans.length - 1];
+      if (last && last.value === wantsStyle && last.end === pair.wordOffset) {
+        last.end++;
+      } else {
+        spans.push({ start: pair.wordOffset, end: pair.wordOffset + 1, value: wantsStyle });
+      }
+    }
+
+    for (const span of spans) {
+      // Leave surrounding whitespace out of the change
+      let { start, end } = span;
+      while (start < end && /\s/.test(wordText[start])) start++;
+      while (end > start && /\s/.test(wordText[end - 1])) end--;
+      if (start === end) continue;
+
+      const diffText = wordText.substring(start, end);
+      correctionIndex++;
+      const suggestion = span.value
+        ? `Make "${diffText}" ${STYLE_ADJECTIVES[style]}`
+        : `Remove ${STYLE_NOUNS[style]} from "${diffText}"`;
+
+      corrections.push({
+        id: `${jsonParagraph.word_native_para_id}-format-${correctionIndex}`,
+        paragraphNumber: jsonParagraph.paragraph_number,
+        wordNativeParaId: jsonParagraph.word_native_para_id,
+        originalText: wordText,
+        correctedText,
+        changeType: "formatting",
+        startOffset: start,
+        endOffset: end,
+        status: "pending",
+        diffText,
+        suggestion,
+        actionDescription: span.value
+          ? `Apply ${STYLE_NOUNS[style]}`
+          : `Remove ${STYLE_NOUNS[style]}`,
+        errorType: "Formatting",
+        formatting: { style, value: span.value },
+        wordParagraphIndex: paragraph.wordParagraphIndex,
+        mappingStrategy: paragraph.mappingStrategy,
+      });
+      console.log(`✅ Created formatting correction: "${suggestion}" at offset ${start}-${end}`);
+    }
+  }
+
+  return corrections;
 }
 
 /**
- * Create a Word.Range for a specific correction within a paragraph
+ * Summarize an alignment step as a mapping result for the report
  */
-async function createWordRangeForCorrection(
-  _context: Word.RequestContext,
-  wordParagraph: Word.Paragraph,
-  correction: CorrectionObject
-): Promise<Word.Range | null> {
-  try {
-    // For now, return the entire paragraph range
-    // TODO: Implement precise character-level range mapping using correction.startOffset and correction.endOffset
-    console.log(`Creating range for correction: ${correction.changeType} at ${correction.startOffset}-${correction.endOffset}`);
-    return wordParagraph.getRange();
-  } catch (error) {
-    console.error('Error creating Word range:', error);
-    return null;
+function describeAlignment(
+  entry: ParagraphAlignment,
+  jsonParagraphs: ParagraphData[]
+): ParagraphMappingResult {
+  let strategy: ParagraphMappingStrategy | null = null;
+  if (entry.outcome === "matched") {
+    strategy = entry.matchedById ? "paraId" : entry.similarity === 1 ? "exactText" : "partialText";
   }
+
+  return {
+    outcome: entry.outcome,
+    paragraphNumbers: entry.jsonIndexes.map((index) => jsonParagraphs[index].paragraph_number),
+    wordNativeParaIds: entry.jsonIndexes.map((index) => jsonParagraphs[index].word_native_para_id),
+    wordParagraphIndexes: entry.wordIndexes,
+    strategy,
+    similarity: entry.similarity,
+  };
 }
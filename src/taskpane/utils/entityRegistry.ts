@@ -0,0 +1,63 @@
+/**
+ * Registry of special-character entities used by the pipeline's marker language,
+ * e.g. [endash] or <[quot_right]>, and the Unicode characters they stand for
+ */
+
+const ENTITY_REGISTRY: { [name: string]: string } = {
+  // Dashes and hyphens
+  endash: "\u2013",
+  emdash: "\u2014",
+  minus: "\u2212",
+  nbhyphen: "\u2011",
+  softhyphen: "\u00AD",
+
+  // Typographic quotes
+  quot_left: "\u201C",
+  quot_right: "\u201D",
+  squot_left: "\u2018",
+  squot_right: "\u2019",
+  apos: "\u2019",
+  guil_left: "\u00AB",
+  guil_right: "\u00BB",
+
+  // Spaces
+  nbsp: "\u00A0",
+  thinsp: "\u2009",
+  hairsp: "\u200A",
+  ensp: "\u2002",
+  emsp: "\u2003",
+  nnbsp: "\u202F",
+
+  // Symbols
+  ellipsis: "\u2026",
+  hellip: "\u2026",
+  deg: "\u00B0",
+  degree: "\u00B0",
+  times: "\u00D7",
+  multiply: "\u00D7",
+  plusminus: "\u00B1",
+  bullet: "\u2022",
+  section: "\u00A7",
+  copy: "\u00A9",
+};
+
+/**
+ * Look up the character an entity expands to (case-insensitive), or undefined if unknown
+ */
+export function expandEntity(name: string): string | undefined {
+  return ENTITY_REGISTRY[name.trim().toLowerCase()];
+}
+
+/**
+ * Add or override an entity, e.g. registerEntity('check', '\u2713')
+ */
+export function registerEntity(name: string, character: string): void {
+  ENTITY_REGISTRY[name.trim().toLowerCase()] = character;
+}
+
+/**
+ * Names of all registered entities
+ */
+export function listEntities(): string[] {
+  return Object.keys(ENTITY_REGISTRY);
+}
@@ -0,0 +1,207 @@
+/**
+ * Parser for the pipeline's inline marker language
+ * Turns text like "<{ch_head}> <[i]><[b]>Dutch<[/b]><[/i]>" into plain text plus styled runs
+ */
+
+import { expandEntity } from "./entityRegistry";
+
+/**
+ * Character formatting that inline markers can express
+ */
+export type InlineStyle =
+  "bold" | "italic" | "underline" | "superscript" | "subscript" | "strikeThrough";
+
+/**
+ * Marker tag name → inline style, e.g. <[b]>...<[/b]>
+ */
+const INLINE_STYLE_TAGS: { [tag: string]: InlineStyle } = {
+  b: "bold",
+  i: "italic",
+  u: "underline",
+  sup: "superscript",
+  sub: "subscript",
+  s: "strikeThrough",
+  strike: "strikeThrough",
+};
+
+export const INLINE_STYLES: InlineStyle[] = [
+  "bold",
+  "italic",
+  "underline",
+  "superscript",
+  "subscript",
+  "strikeThrough",
+];
+
+/**
+ * Inline style → marker tag written by serializeMarkedText, in outermost-first nesting order
+ */
+const SERIALIZED_STYLE_TAGS: { style: InlineStyle; tag: string }[] = [
+  { style: "italic", tag: "i" },
+  { style: "bold", tag: "b" },
+  { style: "underline", tag: "u" },
+  { style: "strikeThrough", tag: "s" },
+  { style: "superscript", tag: "sup" },
+  { style: "subscript", tag: "sub" },
+];
+
+/**
+ * A stretch of text sharing the same inline styles
+ */
+export interface StyledRun {
+  text: string;
+  styles: InlineStyle[];
+}
+
+/**
+ * Result of parsing a marked-up paragraph
+ */
+export interface ParsedMarkedText {
+  blockStyle: string | null; // Paragraph style marker, e.g. "ch_head" for <{ch_head}>
+  text: string; // Plain text with all markers removed and trimmed
+  runs: StyledRun[]; // Styled runs covering exactly `text`
+  unknownMarkers: string[]; // Bracketed markers that are neither a style tag nor a known entity
+}
+
+const TOKEN_PATTERN = /<\{([^}]+)\}>\s*|<\[(\/?)([^\]]+)\]>|\[([^\]]+)\]/g;
+
+/**
+ * Parse marked text into plain text and styled runs.
+ * Entities such as <[quot_right]> or [endash] expand to their Unicode characters.
+ * Unknown <[tags]> are dropped; unknown [identifiers] are kept as literal text.
+ * Both are reported in unknownMarkers. Other bracketed text like "[1]" is plain text.
+ */
+export function parseMarkedText(markedText: string): ParsedMarkedText {
+  const active: { [style: string]: number } = {};
+  const characters: { char: string; styles: InlineStyle[] }[] = [];
+  let blockStyle: string | null = null;
+  const unknownMarkers: string[] = [];
+
+  const activeStyles = (): InlineStyle[] => INLINE_STYLES.filter((style) => active[style] > 0);
+  const pushText = (text: string) => {
+    const styles = activeStyles();
+    for (let i = 0; i < text.length; i++) {
+      characters.push({ char: text[i], styles });
+    }
+  };
+
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  TOKEN_PATTERN.lastIndex = 0;
+  while ((match = TOKEN_PATTERN.exec(markedText)) !== null) {
+    pushText(markedText.substring(lastIndex, match.index));
+    lastIndex = match.index + match[0].length;
+
+    if (match[1] !== undefined) {
+      // Block style marker
+      if (blockStyle === null) {
+        blockStyle = match[1].trim();
+      }
+    } else if (match[3] !== undefined) {
+      // Inline tag: a style toggle or an entity
+      const name = match[3].trim().toLowerCase();
+      const style = INLINE_STYLE_TAGS[name];
+      const entity = match[2] === "/" ? undefined : expandEntity(name);
+      if (style) {
+        active[style] = Math.max(0, (active[style] || 0) + (match[2] === "/" ? -1 : 1));
+      } else if (entity !== undefined) {
+        pushText(entity);
+      } else {
+        unknownMarkers.push(match[0]);
+      }
+    } else if (match[4] !== undefined) {
+      // Bare [name]: an entity, or literal bracketed text
+      const entity = expandEntity(match[4]);
+      if (entity !== undefined) {
+        pushText(entity);
+      } else {
+        if (/^[a-z][a-z0-9_]*$/i.test(match[4].trim())) {
+          unknownMarkers.push(match[0]);
+        }
+        pushText(match[0]);
+      }
+    }
+  }
+  pushText(markedText.substring(lastIndex));
+
+  // Trim surrounding whitespace the same way removeMarkupTags does
+  let start = 0;
+  let end = characters.length;
+  while (start < end && /\s/.test(characters[start].char)) start++;
+  while (end > start && /\s/.test(characters[end - 1].char)) end--;
+  const trimmed = characters.slice(start, end);
+
+  const runs: StyledRun[] = [];
+  for (const { char, styles } of trimmed) {
+    const last = runs[runs.length - 1];
+    if (last && last.styles.join() === styles.join()) {
+      last.text += char;
+    } else {
+      runs.push({ text: char, styles });
+    }
+  }
+
+  return {
+    blockStyle,
+    text: trimmed.map((c) => c.char).join(""),
+    runs,
+    unknownMarkers,
+  };
+}
+
+/**
+ * Expand styled runs into the list of styles applied to each character of the text
+ */
+export function stylesPerCharacter(runs: StyledRun[]): InlineStyle[][] {
+  const perCharacter: InlineStyle[][] = [];
+  for (const run of runs) {
+    for (let i = 0; i < run.text.length; i++) {
+      perCharacter.push(run.styles);
+    }
+  }
+  return perCharacter;
+}
+
+/**
+ * Write plain text with styled runs back into marker syntax - the inverse of parseMarkedText.
+ * Open tags stay open across runs that keep the style, so nesting matches the pipeline's
+ * "<[i]><[b]>Dutch<[/b]><[/i]>" form. Characters listed in entityMarkers are written as
+ * their entity marker, e.g. { "\u2013": "[endash]" }.
+ */
+export function serializeMarkedText(
+  blockStyle: string | null,
+  runs: StyledRun[],
+  entityMarkers: { [character: string]: string } = {}
+): string {
+  let output = blockStyle ? `<{${blockStyle}}> ` : "";
+  let open: { style: InlineStyle; tag: string }[] = [];
+
+  for (const run of runs) {
+    // Close from the innermost tag down to the first style this run doesn't have
+    let keep = 0;
+    while (keep < open.length && run.styles.indexOf(open[keep].style) !== -1) keep++;
+    for (let i = open.length - 1; i >= keep; i--) {
+      output += `<[/${open[i].tag}]>`;
+    }
+    open = open.slice(0, keep);
+
+    for (const entry of SERIALIZED_STYLE_TAGS) {
+      if (run.styles.indexOf(entry.style) !== -1 && open.indexOf(entry) === -1) {
+        output += `<[${entry.tag}]>`;
+        open.push(entry);
+      }
+    }
+
+    for (let i = 0; i < run.text.length; i++) {
+      const character = run.text[i];
+      output += Object.prototype.hasOwnProperty.call(entityMarkers, character)
+        ? entityMarkers[character]
+        : character;
+    }
+  }
+
+  for (let i = open.length - 1; i >= 0; i--) {
+    output += `<[/${open[i].tag}]>`;
+  }
+  return output;
+}
@@ -0,0 +1,72 @@
+/**
+ * Offset transform for corrections that share a paragraph
+ * When one correction edits the paragraph, the other corrections' offsets and expected
+ * text are rebased onto the edited text so each can still be applied on its own
+ */
+
+import { CorrectionObject } from "./documentMapping";
+
+/**
+ * An edit to a paragraph's trimmed text: [start, end) was replaced by insertedLength characters
+ */
+export interface TextEdit {
+  start: number;
+  end: number;
+  insertedLength: number;
+}
+
+/**
+ * Map a position in the pre-edit text to the post-edit text.
+ * Positions inside the replaced span snap to its start (for span starts) or to the
+ * end of the inserted text (for span ends). A position exactly at a zero-width edit
+ * counts as after it for starts and before it for ends.
+ */
+export function transformOffset(position: number, edit: TextEdit, isEnd: boolean): number {
+  const delta = edit.insertedLength - (edit.end - edit.start);
+
+  if (isEnd) {
+    if (position <= edit.start) return position;
+    if (position >= edit.end) return position + delta;
+    return edit.start + edit.insertedLength;
+  }
+
+  if (position < edit.start) return position;
+  if (position >= edit.end) return position + delta;
+  return edit.start;
+}
+
+/**
+ * Check whether two corrections target the same paragraph
+ */
+export function isSameParagraph(a: CorrectionObject, b: CorrectionObject): boolean {
+  return a.wordNativeParaId === b.wordNativeParaId && a.paragraphNumber === b.paragraphNumber;
+}
+
+/**
+ * Rebase every sibling of `source` onto the paragraph text after `edit` was made.
+ * Returns the number of corrections that were updated.
+ */
+export function rebaseSiblingCorrections(
+  corrections: CorrectionObject[],
+  source: CorrectionObject,
+  edit: TextEdit,
+  paragraphText: string
+): number {
+  let rebased = 0;
+
+  corrections.forEach((correction) => {
+    if (correction === source || !isSameParagraph(correction, source)) {
+      return;
+    }
+
+    const startOffset = transformOffset(correction.startOffset, edit, false);
+    const endOffset = Math.max(startOffset, transformOffset(correction.endOffset, edit, true));
+
+    correction.startOffset = startOffset;
+    correction.endOffset = endOffset;
+    correction.originalText = paragraphText;
+    rebased++;
+  });
+
+  return rebased;
+}
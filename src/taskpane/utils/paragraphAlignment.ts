@@ -0,0 +1,430 @@
+/**
+ * Document-level paragraph alignment between the pipeline JSON and the Word body
+ * Produces a one-to-one mapping with explicit outcomes for paragraphs that were
+ * inserted, removed, split or merged by an editor after the JSON was generated
+ */
+
+/**
+ * Outcome of aligning one group of JSON paragraphs with Word paragraphs
+ */
+export type AlignmentOutcome =
+  "matched" | "insertedInWord" | "missingFromWord" | "split" | "merged";
+
+/**
+ * A paragraph on either side of the alignment
+ */
+export interface AlignableParagraph {
+  text: string;
+  paraId?: string | null;
+}
+
+/**
+ * One step of the alignment. Indexes refer to the input arrays.
+ * - matched: one JSON paragraph ↔ one Word paragraph
+ * - insertedInWord: a Word paragraph with no JSON counterpart
+ * - missingFromWord: a JSON paragraph with no Word counterpart
+ * - split: one JSON paragraph ↔ consecutive Word paragraphs
+ * - merged: consecutive JSON paragraphs ↔ one Word paragraph
+ */
+export interface ParagraphAlignment {
+  outcome: AlignmentOutcome;
+  jsonIndexes: number[];
+  wordIndexes: number[];
+  similarity: number;
+  matchedById: boolean;
+}
+
+export interface AlignmentOptions {
+  minSimilarity?: number; // Pairs below this similarity are never aligned (default 0.6)
+}
+
+type Move = "match" | "skipJson" | "skipWord" | "split" | "merge";
+
+const DEFAULT_MIN_SIMILARITY = 0.6;
+
+/**
+ * Normalize paragraph text for comparison
+ */
+function normalize(text: string): string {
+  return text.trim().replace(/\s+/g, " ");
+}
+
+/**
+ * Normalized text and character bigram counts of a paragraph, computed once per text
+ */
+interface TextProfile {
+  text: string;
+  bigrams: { [bigram: string]: number };
+  bigramCount: number;
+}
+
+function profileText(text: string): TextProfile {
+  const normalized = normalize(text);
+  const counts: { [bigram: string]: number } = {};
+  const lower = normalized.toLowerCase();
+  const source = lower.length === 1 ? ` ${lower}` : lower;
+  for (let i = 0; i < source.length - 1; i++) {
+    const bigram = source.substr(i, 2);
+    counts[bigram] = (counts[bigram] || 0) + 1;
+  }
+  return { text: normalized, bigrams: counts, bigramCount: Math.max(source.length - 1, 0) };
+}
+
+/**
+ * Sørensen–Dice similarity of two profiled texts over character bigrams (0..1)
+ */
+function profileSimilarity(left: TextProfile, right: TextProfile): number {
+  if (left.text === right.text) return 1;
+  if (!left.text || !right.text) return 0;
+
+  // Cheap rejection for very different lengths
+  const lengthRatio =
+    Math.min(left.text.length, right.text.length) / Math.max(left.text.length, right.text.length);
+  if (lengthRatio < 0.3) return 0;
+
+  const total = left.bigramCount + right.bigramCount;
+  if (total === 0) return 0;
+
+  let shared = 0;
+  Object.keys(left.bigrams).forEach((bigram) => {
+    if (right.bigrams[bigram]) {
+      shared += Math.min(left.bigrams[bigram], right.bigrams[bigram]);
+    }
+  });
+  return (2 * shared) / total;
+}
+
+/**
+ * Sørensen–Dice similarity of two normalized texts over character bigrams (0..1)
+ */
+export function textSimilarity(a: string, b: string): number {
+  return profileSimilarity(profileText(a), profileText(b));
+}
+
+/**
+ * Native paragraph IDs that occur exactly once in a list, with the index of their paragraph
+ */
+function uniqueParaIds(paragraphs: AlignableParagraph[]): { [paraId: string]: number } {
+  const indexes: { [paraId: string]: number } = {};
+  const duplicates: { [paraId: string]: boolean } = {};
+  paragraphs.forEach((paragraph, index) => {
+    if (!paragraph.paraId) return;
+    const paraId = paragraph.paraId.toUpperCase();
+    if (paraId in indexes) duplicates[paraId] = true;
+    indexes[paraId] = index;
+  });
+  Object.keys(duplicates).forEach((paraId) => delete indexes[paraId]);
+  return indexes;
+}
+
+/**
+ * Pairs of paragraphs sharing a native paragraph ID, as [jsonIndex, wordIndex].
+ * Only the longest run that keeps document order on both sides is kept, so anchors never cross;
+ * paragraphs whose ID moved are left to the text alignment.
+ */
+function findIdAnchors(
+  jsonParagraphs: AlignableParagraph[],
+  wordParagraphs: AlignableParagraph[]
+): Array<[number, number]> {
+  const jsonIds = uniqueParaIds(jsonParagraphs);
+  const wordIds = uniqueParaIds(wordParagraphs);
+  const candidates: Array<[number, number]> = [];
+  Object.keys(jsonIds).forEach((paraId) => {
+    if (paraId in wordIds) candidates.push([jsonIds[paraId], wordIds[paraId]]);
+  });
+  candidates.sort((a, b) => a[0] - b[0]);
+
+  // Longest increasing run of Word indexes (patience sorting)
+  const tails: number[] = [];
+  const previous: number[] = [];
+  candidates.forEach((candidate, index) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (candidates[tails[middle]][1] < candidate[1]) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    previous[index] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = index;
+  });
+
+  const anchors: Array<[number, number]> = [];
+  for (
+    let index = tails.length > 0 ? tails[tails.length - 1] : -1;
+    index >= 0;
+    index = previous[index]
+  ) {
+    anchors.push(candidates[index]);
+  }
+  return anchors.reverse();
+}
+
+/**
+ * Text similarity of the paragraph pairings the alignment considers.
+ * split(i, j): JSON paragraph i against Word paragraphs j and j + 1;
+ * merge(i, j): JSON paragraphs i and i + 1 against Word paragraph j.
+ */
+interface PairScorer {
+  match(jsonIndex: number, wordIndex: number): number;
+  split(jsonIndex: number, wordIndex: number): number;
+  merge(jsonIndex: number, wordIndex: number): number;
+}
+
+function createPairScorer(
+  jsonParagraphs: AlignableParagraph[],
+  wordParagraphs: AlignableParagraph[]
+): PairScorer {
+  // Each paragraph and adjacent pair is profiled once, on first use, and shared by every cell of the alignment
+  const cache: { [key: string]: TextProfile } = {};
+  const profile = (key: string, text: () => string): TextProfile =>
+    cache[key] || (cache[key] = profileText(text()));
+
+  const json = (i: number) => profile(`j${i}`, () => jsonParagraphs[i].text);
+  const word = (j: number) => profile(`w${j}`, () => wordParagraphs[j].text);
+  const jsonPair = (i: number) =>
+    profile(`jj${i}`, () => `${jsonParagraphs[i].text} ${jsonParagraphs[i + 1].text}`);
+  const wordPair = (j: number) =>
+    profile(`ww${j}`, () => `${wordParagraphs[j].text} ${wordParagraphs[j + 1].text}`);
+
+  return {
+    match: (i, j) => profileSimilarity(json(i), word(j)),
+    split: (i, j) => profileSimilarity(json(i), wordPair(j)),
+    merge: (i, j) => profileSimilarity(jsonPair(i), word(j)),
+  };
+}
+
+/**
+ * Alignment step for a pair of paragraphs sharing a native paragraph ID. The anchor widens to a
+ * split or merge when an unanchored neighbour inside the given bounds makes the texts agree better.
+ */
+function anchorAlignment(
+  anchor: [number, number],
+  scorer: PairScorer,
+  bounds: { jsonStart: number; jsonEnd: number; wordStart: number; wordEnd: number },
+  minSimilarity: number
+): ParagraphAlignment {
+  const [i, j] = anchor;
+  let best: ParagraphAlignment = {
+    outcome: "matched",
+    jsonIndexes: [i],
+    wordIndexes: [j],
+    similarity: scorer.match(i, j),
+    matchedById: true,
+  };
+
+  const consider = (
+    outcome: AlignmentOutcome,
+    jsonIndexes: number[],
+    wordIndexes: number[],
+    similarity: number
+  ) => {
+    if (similarity >= minSimilarity && similarity > best.similarity) {
+      best = { outcome, jsonIndexes, wordIndexes, similarity, matchedById: true };
+    }
+  };
+  if (j - 1 >= bounds.wordStart) consider("split", [i], [j - 1, j], scorer.split(i, j - 1));
+  if (j + 1 < bounds.wordEnd) consider("split", [i], [j, j + 1], scorer.split(i, j));
+  if (i - 1 >= bounds.jsonStart) consider("merged", [i - 1, i], [j], scorer.merge(i - 1, j));
+  if (i + 1 < bounds.jsonEnd) consider("merged", [i, i + 1], [j], scorer.merge(i, j));
+
+  return best;
+}
+
+/**
+ * Align JSON paragraphs [jsonStart, jsonEnd) with Word paragraphs [wordStart, wordEnd) by text.
+ * Runs a global sequence alignment (Needleman–Wunsch style) where matching a pair scores by
+ * similarity, gaps score zero, and split/merge moves cover two paragraphs on one side against
+ * one on the other.
+ */
+function alignByText(
+  scorer: PairScorer,
+  jsonStart: number,
+  jsonEnd: number,
+  wordStart: number,
+  wordEnd: number,
+  minSimilarity: number
+): ParagraphAlignment[] {
+  const n = jsonEnd - jsonStart;
+  const m = wordEnd - wordStart;
+
+  // score[i][j] = best score aligning the first i JSON and first j Word paragraphs of the range;
+  // similarity[i][j] = similarity of the move chosen at that cell
+  const score: number[][] = [];
+  const moves: Move[][] = [];
+  const similarity: number[][] = [];
+  for (let i = 0; i <= n; i++) {
+    score.push(new Array(m + 1).fill(0));
+    moves.push(new Array(m + 1).fill("skipJson"));
+    similarity.push(new Array(m + 1).fill(0));
+  }
+  for (let j = 1; j <= m; j++) {
+    moves[0][j] = "skipWord";
+  }
+
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      let best = score[i - 1][j];
+      let bestMove: Move = "skipJson";
+      let bestSimilarity = 0;
+
+      if (score[i][j - 1] > best) {
+        best = score[i][j - 1];
+        bestMove = "skipWord";
+      }
+
+      // Each move is weighted by the number of paragraphs it consumes
+      const matchSimilarity = scorer.match(jsonStart + i - 1, wordStart + j - 1);
+      if (matchSimilarity >= minSimilarity && score[i - 1][j - 1] + 2 * matchSimilarity > best) {
+        best = score[i - 1][j - 1] + 2 * matchSimilarity;
+        bestMove = "match";
+        bestSimilarity = matchSimilarity;
+      }
+
+      if (j >= 2) {
+        const splitSimilarity = scorer.split(jsonStart + i - 1, wordStart + j - 2);
+        if (splitSimilarity >= minSimilarity && score[i - 1][j - 2] + 3 * splitSimilarity > best) {
+          best = score[i - 1][j - 2] + 3 * splitSimilarity;
+          bestMove = "split";
+          bestSimilarity = splitSimilarity;
+        }
+      }
+
+      if (i >= 2) {
+        const mergeSimilarity = scorer.merge(jsonStart + i - 2, wordStart + j - 1);
+        if (mergeSimilarity >= minSimilarity && score[i - 2][j - 1] + 3 * mergeSimilarity > best) {
+          best = score[i - 2][j - 1] + 3 * mergeSimilarity;
+          bestMove = "merge";
+          bestSimilarity = mergeSimilarity;
+        }
+      }
+
+      score[i][j] = best;
+      moves[i][j] = bestMove;
+      similarity[i][j] = bestSimilarity;
+    }
+  }
+
+  // Trace back from the bottom-right corner
+  const alignment: ParagraphAlignment[] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    const move = moves[i][j];
+    const jsonIndex = jsonStart + i - 1;
+    const wordIndex = wordStart + j - 1;
+    if (move === "match") {
+      alignment.push({
+        outcome: "matched",
+        jsonIndexes: [jsonIndex],
+        wordIndexes: [wordIndex],
+        similarity: similarity[i][j],
+        matchedById: false,
+      });
+      i--;
+      j--;
+    } else if (move === "split") {
+      alignment.push({
+        outcome: "split",
+        jsonIndexes: [jsonIndex],
+        wordIndexes: [wordIndex - 1, wordIndex],
+        similarity: similarity[i][j],
+        matchedById: false,
+      });
+      i--;
+      j -= 2;
+    } else if (move === "merge") {
+      alignment.push({
+        outcome: "merged",
+        jsonIndexes: [jsonIndex - 1, jsonIndex],
+        wordIndexes: [wordIndex],
+        similarity: similarity[i][j],
+        matchedById: false,
+      });
+      i -= 2;
+      j--;
+    } else if (move === "skipWord" || i === 0) {
+      alignment.push({
+        outcome: "insertedInWord",
+        jsonIndexes: [],
+        wordIndexes: [wordIndex],
+        similarity: 0,
+        matchedById: false,
+      });
+      j--;
+    } else {
+      alignment.push({
+        outcome: "missingFromWord",
+        jsonIndexes: [jsonIndex],
+        wordIndexes: [],
+        similarity: 0,
+        matchedById: false,
+      });
+      i--;
+    }
+  }
+
+  return alignment.reverse();
+}
+
+/**
+ * Align the JSON paragraph list with the Word paragraph list.
+ * Paragraphs sharing a native paragraph ID are fixed as anchors first; only the paragraphs
+ * between anchors, whose ID is missing or unknown to the other side, are aligned by text.
+ */
+export function alignParagraphs(
+  jsonParagraphs: AlignableParagraph[],
+  wordParagraphs: AlignableParagraph[],
+  options: AlignmentOptions = {}
+): ParagraphAlignment[] {
+  const minSimilarity = options.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+  const scorer = createPairScorer(jsonParagraphs, wordParagraphs);
+  const anchors = findIdAnchors(jsonParagraphs, wordParagraphs);
+
+  const alignment: ParagraphAlignment[] = [];
+  let jsonStart = 0;
+  let wordStart = 0;
+  anchors.forEach((anchor, index) => {
+    const next = anchors[index + 1];
+    const entry = anchorAlignment(
+      anchor,
+      scorer,
+      {
+        jsonStart,
+        jsonEnd: next ? next[0] : jsonParagraphs.length,
+        wordStart,
+        wordEnd: next ? next[1] : wordParagraphs.length,
+      },
+      minSimilarity
+    );
+
+    alignment.push(
+      ...alignByText(
+        scorer,
+        jsonStart,
+        entry.jsonIndexes[0],
+        wordStart,
+        entry.wordIndexes[0],
+        minSimilarity
+      )
+    );
+    alignment.push(entry);
+    jsonStart = entry.jsonIndexes[entry.jsonIndexes.length - 1] + 1;
+    wordStart = entry.wordIndexes[entry.wordIndexes.length - 1] + 1;
+  });
+  alignment.push(
+    ...alignByText(
+      scorer,
+      jsonStart,
+      jsonParagraphs.length,
+      wordStart,
+      wordParagraphs.length,
+      minSimilarity
+    )
+  );
+
+  return alignment;
+}
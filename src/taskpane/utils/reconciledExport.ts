@@ -0,0 +1,294 @@
+/**
+ * Reconciled pipeline JSON
+ * Writes the reviewer's decisions back into the documentSchema format, so the upstream
+ * pipeline continues from the text that was actually accepted in Word
+ */
+
+import { diff_match_patch } from "diff-match-patch";
+import { CorrectionObject, ParagraphMappingResult, originalStylesForText } from "./documentMapping";
+import {
+  parseMarkedText,
+  serializeMarkedText,
+  stylesPerCharacter,
+  InlineStyle,
+  StyledRun,
+} from "./markerParser";
+import { expandEntity } from "./entityRegistry";
+
+export const WORD_REVIEW_STAGE = "word-review";
+
+/**
+ * A pipeline edit the reviewer did not accept
+ */
+export interface ReviewedEdit {
+  correction_id: string;
+  paragraph_number: number;
+  word_native_para_id: string;
+  status: CorrectionObject["status"];
+  change_type: CorrectionObject["changeType"];
+  error_type: CorrectionObject["errorType"];
+  original_text: string; // Text the pipeline wanted to change ("" for insertions and style changes)
+  proposed_text: string; // What the pipeline proposed instead
+  formatting?: { style: InlineStyle; value: boolean };
+  paragraph_style?: string; // Block marker of a rejected style change, e.g. "h2"
+  paragraph_text: string; // The paragraph as it was in Word, for context
+  decided_at: string | null;
+}
+
+/**
+ * Record of the Word review stage, stored as `word_review` in the reconciled JSON
+ */
+export interface WordReviewRecord {
+  stage: string;
+  reviewed_at: string;
+  accepted_count: number;
+  rejected_count: number;
+  unresolved_count: number;
+  rejected_edits: ReviewedEdit[];
+  unresolved_edits: ReviewedEdit[]; // Pending or skipped when the JSON was exported
+  warnings: string[];
+}
+
+export interface ReconcileOptions {
+  stage?: string;
+  reviewedAt?: Date;
+  paragraphMappings?: ParagraphMappingResult[]; // Alignment of the review; unmatched paragraphs are reset to their input
+}
+
+const TEXT_CHANGE_TYPES = ["deletion", "addition", "modification"];
+
+const UNMATCHED_DESCRIPTIONS: { [outcome: string]: string } = {
+  missingFromWord: "is missing from Word",
+  split: "was split in Word",
+  merged: "was merged with a neighbour in Word",
+};
+
+/**
+ * Characters that the paragraph's marked texts spell as entities, e.g. "–" → "[endash]"
+ */
+function collectEntityMarkers(markedTexts: string[]): { [character: string]: string } {
+  const markers: { [character: string]: string } = {};
+  const pattern = /<\[([^\]/][^\]]*)\]>|\[([^\]]+)\]/g;
+  markedTexts.forEach((markedText) => {
+    let match: RegExpExecArray | null;
+    pattern.lastIndex = 0;
+    while ((match = pattern.exec(markedText)) !== null) {
+      const character = expandEntity(match[1] !== undefined ? match[1] : match[2]);
+      if (character !== undefined && !markers[character]) {
+        markers[character] = match[0];
+      }
+    }
+  });
+  return markers;
+}
+
+/**
+ * The text a correction proposes in place of its span
+ */
+function proposedText(correction: CorrectionObject): string {
+  if (correction.changeType === "addition") return correction.diffText;
+  if (correction.changeType === "modification") return correction.replacementText || "";
+  if (correction.changeType === "deletion") return "";
+  return correction.diffText;
+}
+
+/**
+ * Rebuild a paragraph's marked text from the Word text plus only the accepted corrections
+ */
+function reconcileParagraph(
+  paragraph: any,
+  corrections: CorrectionObject[],
+  warnings: string[]
+): string {
+  if (corrections.every((c) => c.status === "applied")) {
+    return paragraph.latest_edited_text;
+  }
+
+  const originCorrection = corrections.filter((c) => !!c.origin)[0];
+  if (!originCorrection) {
+    warnings.push(
+      `Paragraph ${paragraph.paragraph_number}: corrections carry no source text - reset to the input text`
+    );
+    return paragraph.input_with_markers;
+  }
+  const wordText = originCorrection.origin!.text;
+
+  const input = parseMarkedText(paragraph.input_with_markers);
+  const target = parseMarkedText(paragraph.latest_edited_text);
+  const targetStyles = stylesPerCharacter(target.runs);
+
+  // Word text with its original styles, plus accepted formatting changes
+  const characters = originalStylesForText(input, wordText).map((styles, index) => ({
+    char: wordText[index],
+    styles: (styles || []).slice(),
+  }));
+  corrections
+    .filter(
+      (c) => c.changeType === "formatting" && c.status === "applied" && c.formatting && c.origin
+    )
+    .forEach((c) => {
+      const { style, value } = c.formatting!;
+      for (let i = c.origin!.startOffset; i < c.origin!.endOffset && i < characters.length; i++) {
+        const has = characters[i].styles.indexOf(style) !== -1;
+        if (value && !has) characters[i].styles.push(style);
+        if (!value && has) characters[i].styles.splice(characters[i].styles.indexOf(style), 1);
+      }
+    });
+
+  // Accepted text changes, last first so earlier offsets stay valid.
+  // Inserted text takes its styles from latest_edited_text where it can be found there.
+  const dmp = new diff_match_patch();
+  const targetDiffs = dmp.diff_main(wordText, target.text);
+  corrections
+    .filter(
+      (c) => TEXT_CHANGE_TYPES.indexOf(c.changeType) !== -1 && c.status === "applied" && c.origin
+    )
+    .sort(
+      (a, b) =>
+        b.origin!.startOffset - a.origin!.startOffset || b.origin!.endOffset - a.origin!.endOffset
+    )
+    .forEach((c) => {
+      const { startOffset, endOffset } = c.origin!;
+      const inserted = proposedText(c);
+      const targetIndex = dmp.diff_xIndex(targetDiffs, startOffset);
+      const targetStart = [targetIndex, targetIndex - inserted.length].filter(
+        (index) => index >= 0 && target.text.substr(index, inserted.length) === inserted
+      )[0];
+      const neighbourStyles =
+        startOffset > 0 && characters[startOffset - 1] ? characters[startOffset - 1].styles : [];
+
+      const insertedCharacters = inserted.split("").map((char, i) => ({
+        char,
+        styles: (targetStart !== undefined
+          ? targetStyles[targetStart + i]
+          : neighbourStyles
+        ).slice(),
+      }));
+      characters.splice(startOffset, endOffset - startOffset, ...insertedCharacters);
+    });
+
+  const runs: StyledRun[] = [];
+  characters.forEach(({ char, styles }) => {
+    const ordered = styles.slice().sort();
+    const last = runs[runs.length - 1];
+    if (last && last.styles.join() === ordered.join()) {
+      last.text += char;
+    } else {
+      runs.push({ text: char, styles: ordered });
+    }
+  });
+
+  const styleCorrection = corrections.filter((c) => c.changeType === "style")[0];
+  const blockStyle =
+    styleCorrection && styleCorrection.status !== "applied" ? input.blockStyle : target.blockStyle;
+
+  return serializeMarkedText(
+    blockStyle,
+    runs,
+    collectEntityMarkers([paragraph.input_with_markers, paragraph.latest_edited_text])
+  );
+}
+
+/**
+ * Describe a correction that was not accepted
+ */
+function describeReviewedEdit(correction: CorrectionObject): ReviewedEdit {
+  const origin = correction.origin;
+  const edit: ReviewedEdit = {
+    correction_id: correction.id,
+    paragraph_number: correction.paragraphNumber,
+    word_native_para_id: correction.wordNativeParaId,
+    status: correction.status,
+    change_type: correction.changeType,
+    error_type: correction.errorType,
+    original_text:
+      correction.changeType === "addition" || correction.changeType === "style"
+        ? ""
+        : correction.diffText,
+    proposed_text: proposedText(correction),
+    paragraph_text: origin ? origin.text : correction.originalText,
+    decided_at: correction.decidedAt || null,
+  };
+  if (correction.formatting) {
+    edit.formatting = { ...correction.formatting };
+  }
+  if (correction.paragraphStyle) {
+    edit.paragraph_style = correction.paragraphStyle.marker;
+  }
+  return edit;
+}
+
+/**
+ * Build the reconciled pipeline JSON from the source document and the reviewed corrections.
+ * Keeps document_id, paragraph identity and marker syntax; each reviewed paragraph's
+ * latest_edited_text becomes the text accepted in Word, the review stage is appended to
+ * completed_stages, and rejected edits are listed under word_review.
+ * Paragraphs the review could not match to Word had none of their edits reviewed, so they are
+ * reset to input_with_markers and reported under word_review.warnings.
+ */
+export function buildReconciledDocument(
+  documentData: any,
+  corrections: CorrectionObject[],
+  options: ReconcileOptions = {}
+): any {
+  const stage = options.stage || WORD_REVIEW_STAGE;
+  const reconciled = JSON.parse(JSON.stringify(documentData));
+  const warnings: string[] = [];
+
+  const byParagraph: { [paragraphNumber: number]: CorrectionObject[] } = {};
+  corrections.forEach((correction) => {
+    (byParagraph[correction.paragraphNumber] = byParagraph[correction.paragraphNumber] || []).push(
+      correction
+    );
+  });
+
+  const unmatched: { [paragraphNumber: number]: string } = {};
+  (options.paragraphMappings || [])
+    .filter((mapping) => mapping.outcome !== "matched")
+    .forEach((mapping) =>
+      mapping.paragraphNumbers.forEach((paragraphNumber) => {
+        unmatched[paragraphNumber] = UNMATCHED_DESCRIPTIONS[mapping.outcome];
+      })
+    );
+
+  reconciled.paragraphs.forEach((paragraph: any) => {
+    const unmatchedReason = unmatched[paragraph.paragraph_number];
+    if (unmatchedReason) {
+      if (paragraph.latest_edited_text !== paragraph.input_with_markers) {
+        warnings.push(
+          `Paragraph ${paragraph.paragraph_number} ${unmatchedReason}, so its edits were not reviewed - reset to the input text`
+        );
+        paragraph.latest_edited_text = paragraph.input_with_markers;
+      }
+      return;
+    }
+
+    const paragraphCorrections = byParagraph[paragraph.paragraph_number];
+    if (paragraphCorrections) {
+      paragraph.latest_edited_text = reconcileParagraph(paragraph, paragraphCorrections, warnings);
+    }
+  });
+
+  const completedStages: string[] = reconciled.completed_stages || [];
+  if (completedStages.indexOf(stage) === -1) {
+    completedStages.push(stage);
+  }
+  reconciled.completed_stages = completedStages;
+
+  const record: WordReviewRecord = {
+    stage,
+    reviewed_at: (options.reviewedAt || new Date()).toISOString(),
+    accepted_count: corrections.filter((c) => c.status === "applied").length,
+    rejected_count: corrections.filter((c) => c.status === "rejected").length,
+    unresolved_count: corrections.filter((c) => c.status === "pending" || c.status === "skipped")
+      .length,
+    rejected_edits: corrections.filter((c) => c.status === "rejected").map(describeReviewedEdit),
+    unresolved_edits: corrections
+      .filter((c) => c.status === "pending" || c.status === "skipped")
+      .map(describeReviewedEdit),
+    warnings,
+  };
+  reconciled.word_review = record;
+
+  return reconciled;
+}
@@ -0,0 +1,113 @@
+/**
+ * Undo/redo history for a review session
+ * Every accept, reject and bulk action is recorded as a command holding the edit it made
+ * in the document and the correction state from before and after the change
+ */
+
+import { CorrectionObject } from "./documentMapping";
+
+/**
+ * The span an accepted correction changed, so undo can reverse it in place.
+ * Offsets are into the trimmed paragraph text, like a correction's own offsets.
+ */
+export interface AppliedEdit {
+  start: number;
+  textBefore: string; // Text of the span before the edit
+  textAfter: string; // Text of the span after it ('' for a tracked deletion)
+  fontBefore: { [property: string]: string | boolean | null } | null; // Font of the span, when the edit changed formatting
+  styleBefore: string | null; // Paragraph style, when the edit changed it
+}
+
+/**
+ * One correction's change within a command
+ */
+export interface ReviewHistoryStep {
+  correctionId: string;
+  edit: AppliedEdit | null; // null when the document wasn't touched
+  correctionsBefore: CorrectionObject[]; // Snapshots of every correction the change affected
+  correctionsAfter: CorrectionObject[];
+}
+
+/**
+ * A user action that undoes and redoes as a unit, e.g. a single accept or "Accept All"
+ */
+export interface ReviewCommand {
+  label: string;
+  timestamp: Date;
+  steps: ReviewHistoryStep[];
+}
+
+export class ReviewHistory {
+  private undoStack: ReviewCommand[] = [];
+  private redoStack: ReviewCommand[] = [];
+  private batch: ReviewCommand | null = null;
+
+  /**
+   * Record a step, as its own command or as part of the open batch
+   */
+  record(label: string, step: ReviewHistoryStep): void {
+    if (this.batch) {
+      this.batch.steps.push(step);
+    } else {
+      this.undoStack.push({ label, timestamp: new Date(), steps: [step] });
+    }
+    this.redoStack = [];
+  }
+
+  /**
+   * Group the steps recorded until endBatch() into one command
+   */
+  beginBatch(label: string): void {
+    this.batch = { label, timestamp: new Date(), steps: [] };
+  }
+
+  endBatch(): void {
+    if (this.batch && this.batch.steps.length > 0) {
+      this.undoStack.push(this.batch);
+    }
+    this.batch = null;
+  }
+
+  /**
+   * Take the most recent command to undo; it moves to the redo stack
+   */
+  takeUndo(): ReviewCommand | null {
+    const command = this.undoStack.pop();
+    if (!command) return null;
+    this.redoStack.push(command);
+    return command;
+  }
+
+  /**
+   * Take the most recently undone command to redo; it moves back to the undo stack
+   */
+  takeRedo(): ReviewCommand | null {
+    const command = this.redoStack.pop();
+    if (!command) return null;
+    this.undoStack.push(command);
+    return command;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Labels of the commands that would be undone and redone next
+   */
+  nextLabels(): { undo: string | null; redo: string | null } {
+    const undo = this.undoStack[this.undoStack.length - 1];
+    const redo = this.redoStack[this.redoStack.length - 1];
+    return { undo: undo ? undo.label : null, redo: redo ? redo.label : null };
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.batch = null;
+  }
+}
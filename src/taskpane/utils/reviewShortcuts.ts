@@ -0,0 +1,117 @@
+/**
+ * Configurable keyboard shortcuts for the one-at-a-time review view
+ */
+
+export type ReviewAction = "accept" | "reject" | "skip" | "next" | "previous" | "undo";
+
+export type ShortcutMap = { [action in ReviewAction]: string };
+
+export const REVIEW_ACTIONS: ReviewAction[] = [
+  "accept",
+  "reject",
+  "skip",
+  "next",
+  "previous",
+  "undo",
+];
+
+export const REVIEW_ACTION_LABELS: ShortcutMap = {
+  accept: "Accept",
+  reject: "Reject",
+  skip: "Skip",
+  next: "Next",
+  previous: "Previous",
+  undo: "Undo",
+};
+
+const STORAGE_KEY = "diffPipeline.reviewShortcuts";
+
+export const DEFAULT_SHORTCUTS: ShortcutMap = {
+  accept: "A",
+  reject: "R",
+  skip: "S",
+  next: "ArrowRight",
+  previous: "ArrowLeft",
+  undo: "Ctrl+Z",
+};
+
+/**
+ * Normalized name of a key press, e.g. "A", "Shift+Enter" or "Ctrl+Z".
+ * Returns null for presses of modifier keys on their own.
+ */
+export function describeKeyEvent(event: {
+  key: string;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  altKey: boolean;
+  shiftKey: boolean;
+}): string | null {
+  if (["Control", "Meta", "Alt", "Shift"].indexOf(event.key) !== -1) {
+    return null;
+  }
+
+  const key =
+    event.key === " " ? "Space" : event.key.length === 1 ? event.key.toUpperCase() : event.key;
+  const modifiers: string[] = [];
+  if (event.ctrlKey || event.metaKey) modifiers.push("Ctrl");
+  if (event.altKey) modifiers.push("Alt");
+  // Shift is part of the character for printable keys
+  if (event.shiftKey && event.key.length > 1) modifiers.push("Shift");
+
+  return modifiers.concat(key).join("+");
+}
+
+/**
+ * Find the review action bound to a key press
+ */
+export function findShortcutAction(shortcuts: ShortcutMap, keyName: string): ReviewAction | null {
+  for (const action of REVIEW_ACTIONS) {
+    if (shortcuts[action] === keyName) {
+      return action;
+    }
+  }
+  return null;
+}
+
+/**
+ * Validate a shortcut map, returning an error message or null
+ */
+export function validateShortcuts(shortcuts: ShortcutMap): string | null {
+  const seen: { [key: string]: ReviewAction } = {};
+  for (const action of REVIEW_ACTIONS) {
+    const key = shortcuts[action];
+    if (!key) {
+      return `No shortcut set for ${REVIEW_ACTION_LABELS[action]}`;
+    }
+    if (seen[key]) {
+      return `"${key}" is used for both ${REVIEW_ACTION_LABELS[seen[key]]} and ${REVIEW_ACTION_LABELS[action]}`;
+    }
+    seen[key] = action;
+  }
+  return null;
+}
+
+/**
+ * Load the shortcuts saved by the user, falling back to the defaults
+ */
+export function loadShortcuts(): ShortcutMap {
+  try {
+    const saved = typeof localStorage !== "undefined" ? localStorage.getItem(STORAGE_KEY) : null;
+    if (saved) {
+      const parsed = { ...DEFAULT_SHORTCUTS, ...JSON.parse(saved) };
+      if (!validateShortcuts(parsed)) {
+        return parsed;
+      }
+    }
+  } catch (error) {
+    console.warn("⚠️ Could not load saved shortcuts - using defaults:", error);
+  }
+  return { ...DEFAULT_SHORTCUTS };
+}
+
+/**
+ * Persist the shortcuts for future sessions
+ */
+export function saveShortcuts(shortcuts: ShortcutMap): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(shortcuts));
+}
@@ -0,0 +1,128 @@
+/**
+ * Persistence of review sessions inside the Word document
+ * The session is stored in the document's add-in settings, so decisions survive closing
+ * the task pane or reloading Word as long as the document is saved
+ */
+
+import { CorrectionObject } from "./documentMapping";
+import { ApplyMode } from "./correctionReviewManager";
+import { DiffGranularity } from "./textDiff";
+
+const SETTINGS_KEY = "diffPipeline.reviewSession";
+export const PERSISTED_SESSION_VERSION = 2;
+
+/**
+ * Identity of the pipeline JSON a session was created from
+ */
+export interface ReviewSource {
+  documentId: number | null;
+  documentTitle: string;
+  paragraphCount: number;
+  fingerprint: string; // Hash of the JSON paragraphs, to tell revisions of the same document apart
+}
+
+/**
+ * What a review changed about one correction. The rest of the correction is regenerated
+ * from the pipeline JSON on resume, which keeps the settings small.
+ */
+export interface PersistedCorrectionState {
+  id: string;
+  status: CorrectionObject["status"];
+  decidedAt?: string;
+  startOffset: number; // Rebased onto the edits applied so far
+  endOffset: number;
+}
+
+/**
+ * Serialized review session. Undo history is not persisted.
+ */
+export interface PersistedReviewSession {
+  version: number;
+  source: ReviewSource | null;
+  applyMode: ApplyMode;
+  granularity?: DiffGranularity; // Missing in sessions saved before it was recorded
+  previousTrackingMode?: string;
+  corrections: PersistedCorrectionState[];
+  currentIndex: number;
+  startTime: string; // ISO timestamps
+  savedAt: string;
+}
+
+/**
+ * djb2 string hash, as 8 hex digits
+ */
+function hashString(text: string): string {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return ("0000000" + (hash >>> 0).toString(16)).slice(-8);
+}
+
+/**
+ * Describe the identity of a pipeline JSON document
+ */
+export function describeReviewSource(documentData: any): ReviewSource {
+  const paragraphs = Array.isArray(documentData?.paragraphs) ? documentData.paragraphs : [];
+  return {
+    documentId: typeof documentData?.document_id === "number" ? documentData.document_id : null,
+    documentTitle: documentData?.document_title || "",
+    paragraphCount: paragraphs.length,
+    fingerprint: hashString(JSON.stringify(paragraphs)),
+  };
+}
+
+/**
+ * Check whether two sources are the same pipeline JSON
+ */
+export function isSameReviewSource(a: ReviewSource | null, b: ReviewSource | null): boolean {
+  return !!a && !!b && a.documentId === b.documentId && a.fingerprint === b.fingerprint;
+}
+
+function saveSettings(): Promise<void> {
+  return new Promise((resolve, reject) => {
+    Office.context.document.settings.saveAsync((result) => {
+      if (result.status === Office.AsyncResultStatus.Succeeded) {
+        resolve();
+      } else {
+        reject(result.error);
+      }
+    });
+  });
+}
+
+/**
+ * Store the session in the document settings
+ */
+export async function writePersistedSession(session: PersistedReviewSession): Promise<void> {
+  Office.context.document.settings.set(SETTINGS_KEY, session);
+  await saveSettings();
+}
+
+/**
+ * Read the session stored in the document, or null if there is none (or it is unreadable)
+ */
+export function readPersistedSession(): PersistedReviewSession | null {
+  try {
+    const stored = Office.context.document.settings.get(SETTINGS_KEY);
+    if (
+      !stored ||
+      stored.version !== PERSISTED_SESSION_VERSION ||
+      !Array.isArray(stored.corrections)
+    ) {
+      return null;
+    }
+    return stored as PersistedReviewSession;
+  } catch (error) {
+    console.warn("⚠️ Could not read saved review session:", error);
+    return null;
+  }
+}
+
+/**
+ * Remove the stored session from the document
+ */
+export async function clearPersistedSession(): Promise<void> {
+  Office.context.document.settings.remove(SETTINGS_KEY);
+  await saveSettings();
+}
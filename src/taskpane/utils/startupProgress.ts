@@ -0,0 +1,69 @@
+/**
+ * Progress reporting and cancellation for review startup
+ * Covers mapping paragraphs, diffing them into corrections and marking the corrections in Word
+ */
+
+export type StartupPhase = "mapping" | "diffing" | "highlighting";
+
+export const STARTUP_PHASE_LABELS: { [phase in StartupPhase]: string } = {
+  mapping: "Mapping paragraphs",
+  diffing: "Diffing paragraphs",
+  highlighting: "Marking corrections",
+};
+
+export interface StartupProgress {
+  phase: StartupPhase;
+  completed: number;
+  total: number;
+  corrections: number; // Corrections found so far
+}
+
+export type StartupProgressCallback = (progress: StartupProgress) => void;
+
+/**
+ * Thrown from a startup phase once its cancellation token has been cancelled
+ */
+export class ReviewCancelledError extends Error {
+  constructor() {
+    super("Review startup was cancelled");
+    this.name = "ReviewCancelledError";
+    // Keep instanceof working with the ES5 target
+    Object.setPrototypeOf(this, ReviewCancelledError.prototype);
+  }
+}
+
+/**
+ * Shared between the task pane and a running startup; work stops at the next check after cancel()
+ */
+export class CancellationToken {
+  private cancelled = false;
+
+  cancel(): void {
+    this.cancelled = true;
+  }
+
+  get isCancelled(): boolean {
+    return this.cancelled;
+  }
+
+  throwIfCancelled(): void {
+    if (this.cancelled) {
+      throw new ReviewCancelledError();
+    }
+  }
+}
+
+/**
+ * Options accepted by every startup phase
+ */
+export interface StartupOptions {
+  onProgress?: StartupProgressCallback;
+  cancellation?: CancellationToken;
+}
+
+/**
+ * Let the task pane repaint and handle clicks (e.g. Cancel) during synchronous work
+ */
+export function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
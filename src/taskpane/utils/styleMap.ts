@@ -0,0 +1,92 @@
+/**
+ * Configurable map from the pipeline's paragraph style markers (<{h1}>, <{byline}>, ...)
+ * to Word paragraph styles
+ */
+
+/**
+ * Target Word style for a marker: a built-in style (locale independent, e.g. "Heading1")
+ * or the name of a custom style defined in the document template
+ */
+export interface StyleMapping {
+  builtIn?: string;
+  styleName?: string;
+}
+
+export type StyleMap = { [marker: string]: StyleMapping };
+
+const STORAGE_KEY = "diffPipeline.styleMap";
+
+export const DEFAULT_STYLE_MAP: StyleMap = {
+  ch_head: { builtIn: "Title" },
+  h1: { builtIn: "Heading1" },
+  h2: { builtIn: "Heading2" },
+  h3: { builtIn: "Heading3" },
+  byline: { builtIn: "Subtitle" },
+  body_text: { builtIn: "Normal" },
+  extract_text: { builtIn: "Quote" },
+  reference: { builtIn: "Bibliography" },
+};
+
+/**
+ * Display name of the Word style a mapping points to
+ */
+export function describeStyleMapping(mapping: StyleMapping): string {
+  return mapping.styleName || mapping.builtIn || "(none)";
+}
+
+/**
+ * Check whether a paragraph already carries the mapped style
+ */
+export function paragraphHasStyle(
+  mapping: StyleMapping,
+  currentStyle: { style?: string; styleBuiltIn?: string }
+): boolean {
+  if (mapping.styleName) {
+    return (currentStyle.style || "").toLowerCase() === mapping.styleName.toLowerCase();
+  }
+  return currentStyle.styleBuiltIn === mapping.builtIn;
+}
+
+/**
+ * Validate a user-supplied style map, returning an error message or null
+ */
+export function validateStyleMap(value: any): string | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return "Style map must be an object of marker → { builtIn | styleName }";
+  }
+  for (const marker of Object.keys(value)) {
+    const mapping = value[marker];
+    if (
+      !mapping ||
+      (typeof mapping.builtIn !== "string" && typeof mapping.styleName !== "string")
+    ) {
+      return `Marker "${marker}" needs a "builtIn" or "styleName" string`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Load the style map saved by the user, falling back to the defaults
+ */
+export function loadStyleMap(): StyleMap {
+  try {
+    const saved = typeof localStorage !== "undefined" ? localStorage.getItem(STORAGE_KEY) : null;
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (!validateStyleMap(parsed)) {
+        return parsed;
+      }
+    }
+  } catch (error) {
+    console.warn("⚠️ Could not load saved style map - using defaults:", error);
+  }
+  return { ...DEFAULT_STYLE_MAP };
+}
+
+/**
+ * Persist the style map for future sessions
+ */
+export function saveStyleMap(styleMap: StyleMap): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(styleMap));
+}
@@ -0,0 +1,94 @@
+/**
+ * Text diff at a configurable granularity
+ * Character mode diffs raw characters; word and sentence modes diff token streams so
+ * corrections always cover whole words or whole sentences
+ */
+
+import { diff_match_patch, DIFF_EQUAL } from "diff-match-patch";
+
+// A diff-match-patch operation: [DIFF_DELETE | DIFF_INSERT | DIFF_EQUAL, text]
+export type Diff = [number, string];
+
+export type DiffGranularity = "character" | "word" | "sentence";
+
+// Granularity used wherever none is chosen: the task pane, the engine and the command-line tools
+export const DEFAULT_GRANULARITY: DiffGranularity = "character";
+
+// Letters and digits including Latin-1/Extended, Greek and Cyrillic; everything else is a single-character token
+const WORD_TOKEN_PATTERN = /\s+|[0-9A-Za-z\u00C0-\u024F\u0370-\u03FF\u0400-\u04FF]+|[^\s]/g;
+
+// A sentence runs up to and including its terminal punctuation, closing quotes and trailing whitespace
+const SENTENCE_TOKEN_PATTERN = /[^.!?]+(?:[.!?]+["'\u201D\u2019)\]]*)?\s*|[.!?]+\s*/g;
+
+/**
+ * Split text into tokens for the given granularity. Tokens concatenate back to the input.
+ */
+export function tokenize(
+  text: string,
+  granularity: Exclude<DiffGranularity, "character">
+): string[] {
+  const pattern = granularity === "word" ? WORD_TOKEN_PATTERN : SENTENCE_TOKEN_PATTERN;
+  return text.match(pattern) || [];
+}
+
+/**
+ * Diff two token streams by encoding each distinct token as one character
+ * (the same trick diff_match_patch uses for line mode) and decoding the result
+ */
+function diffTokens(
+  dmp: diff_match_patch,
+  originalTokens: string[],
+  correctedTokens: string[]
+): Diff[] {
+  const tokenIndex: { [token: string]: string } = {};
+  const tokenList: string[] = [];
+
+  const encode = (tokens: string[]): string =>
+    tokens
+      .map((token) => {
+        if (!Object.prototype.hasOwnProperty.call(tokenIndex, token)) {
+          tokenList.push(token);
+          tokenIndex[token] = String.fromCharCode(tokenList.length);
+        }
+        return tokenIndex[token];
+      })
+      .join("");
+
+  const encodedDiffs: Diff[] = dmp.diff_main(
+    encode(originalTokens),
+    encode(correctedTokens),
+    false
+  );
+  dmp.diff_cleanupSemantic(encodedDiffs);
+
+  return encodedDiffs.map(([operation, encoded]) => {
+    let text = "";
+    for (let i = 0; i < encoded.length; i++) {
+      text += tokenList[encoded.charCodeAt(i) - 1];
+    }
+    return [operation, text] as Diff;
+  });
+}
+
+/**
+ * Diff original against corrected text at the requested granularity
+ */
+export function computeTextDiff(
+  originalText: string,
+  correctedText: string,
+  granularity: DiffGranularity = DEFAULT_GRANULARITY
+): Diff[] {
+  if (originalText === correctedText) {
+    return originalText ? [[DIFF_EQUAL, originalText]] : [];
+  }
+
+  const dmp = new diff_match_patch();
+  if (granularity === "character") {
+    const diffs: Diff[] = dmp.diff_main(originalText, correctedText);
+    dmp.diff_cleanupSemantic(diffs);
+    dmp.diff_cleanupEfficiency(diffs);
+    return diffs;
+  }
+
+  return diffTokens(dmp, tokenize(originalText, granularity), tokenize(correctedText, granularity));
+}
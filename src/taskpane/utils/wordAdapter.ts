@@ -0,0 +1,269 @@
+/**
+ * Word layer over the correction engine in documentMapping.ts
+ * Reads paragraphs from the live document and turns correction offsets into Word ranges
+ */
+
+import {
+  CorrectionObject,
+  CorrectionOptions,
+  CorrectionProcessingResult,
+  DocumentData,
+  DocumentParagraph,
+  generateCorrections,
+} from "./documentMapping";
+import { CancellationToken } from "./startupProgress";
+
+/**
+ * Corrections plus the Word range of each one, keyed by correction ID.
+ * The ranges are only valid inside the request context they were resolved in.
+ */
+export interface WordCorrectionProcessingResult extends CorrectionProcessingResult {
+  wordRanges: { [correctionId: string]: Word.Range };
+}
+
+/**
+ * Read the native paragraph ID (w14:paraId) of every Word paragraph.
+ * Office.js doesn't expose the attribute directly, so it's taken from each paragraph's OOXML.
+ * Entries are null where the paragraph carries no ID (e.g. documents never saved by Word 2010+).
+ */
+export async function readWordParagraphIds(
+  context: Word.RequestContext,
+  paragraphs: Word.ParagraphCollection
+): Promise<(string | null)[]> {
+  const ooxmlResults = paragraphs.items.map((paragraph) => paragraph.getOoxml());
+  await context.sync();
+
+  return ooxmlResults.map((ooxml) => {
+    const match = ooxml.value.match(/<w:p\s[^>]*w14:paraId="([0-9A-Fa-f]+)"/);
+    return match ? match[1].toUpperCase() : null;
+  });
+}
+
+/**
+ * Read the paragraphs of the document body in the shape the correction engine takes
+ */
+export async function readDocumentParagraphs(
+  context: Word.RequestContext
+): Promise<{ paragraphs: Word.ParagraphCollection; documentParagraphs: DocumentParagraph[] }> {
+  const paragraphs = context.document.body.paragraphs;
+  paragraphs.load("items/text,items/style,items/styleBuiltIn");
+  await context.sync();
+
+  const paragraphIds = await readWordParagraphIds(context, paragraphs);
+  const documentParagraphs = paragraphs.items.map((paragraph, index) => ({
+    text: paragraph.text,
+    paraId: paragraphIds[index],
+    style: paragraph.style,
+    styleBuiltIn: paragraph.styleBuiltIn as string,
+  }));
+  return { paragraphs, documentParagraphs };
+}
+
+/**
+ * Process document data to generate correction objects for interactive review,
+ * against the paragraphs of the open Word document
+ */
+export async function processCorrectionData(
+  context: Word.RequestContext,
+  documentData: DocumentData,
+  options: CorrectionOptions = {}
+): Promise<WordCorrectionProcessingResult> {
+  const { paragraphs, documentParagraphs } = await readDocumentParagraphs(context);
+  if (options.cancellation) options.cancellation.throwIfCancelled();
+
+  const result = await generateCorrections(documentData, documentParagraphs, options);
+
+  // Resolve the exact Word range of every correction, a batch of paragraphs per round-trip
+  const groupsByParagraph: { [paragraphIndex: number]: ParagraphRangeGroup } = {};
+  const rangeGroups: ParagraphRangeGroup[] = [];
+  result.corrections.forEach((correction) => {
+    const paragraphIndex = correction.wordParagraphIndex;
+    if (paragraphIndex === undefined) return;
+    if (!groupsByParagraph[paragraphIndex]) {
+      groupsByParagraph[paragraphIndex] = {
+        wordParagraph: paragraphs.items[paragraphIndex],
+        corrections: [],
+      };
+      rangeGroups.push(groupsByParagraph[paragraphIndex]);
+    }
+    groupsByParagraph[paragraphIndex].corrections.push(correction);
+  });
+  const { ranges } = await resolveCorrectionRanges(
+    context,
+    rangeGroups,
+    undefined,
+    options.cancellation
+  );
+
+  return { ...result, wordRanges: ranges };
+}
+
+/**
+ * Queue a character-level split of a paragraph.
+ * A single-character wildcard search returns one range per character, which lets
+ * us address any offset without guessing positions from surrounding context.
+ * The caller must sync before passing the result to buildRangeForOffsets.
+ */
+export function loadParagraphCharacters(wordParagraph: Word.Paragraph): Word.RangeCollection {
+  wordParagraph.load("text");
+  const characters = wordParagraph.search("?", { matchWildcards: true });
+  characters.load("items/text");
+  return characters;
+}
+
+/**
+ * Map every index of the paragraph text to the index of its character range.
+ * Characters that Word does not expose through search (e.g. field codes) map to -1.
+ */
+function mapTextToCharacterRanges(paragraphText: string, characters: Word.Range[]): number[] {
+  const indexMap: number[] = [];
+  let rangeIndex = 0;
+
+  for (let textIndex = 0; textIndex < paragraphText.length; textIndex++) {
+    if (
+      rangeIndex < characters.length &&
+      characters[rangeIndex].text === paragraphText[textIndex]
+    ) {
+      indexMap.push(rangeIndex);
+      rangeIndex++;
+    } else {
+      indexMap.push(-1);
+    }
+  }
+
+  return indexMap;
+}
+
+/**
+ * Build the exact Word.Range for a [startOffset, endOffset) span of a paragraph.
+ * Offsets are relative to the trimmed paragraph text, as produced by processCorrectionData.
+ * A zero-width span yields a collapsed range at the insertion point.
+ */
+export function buildRangeForOffsets(
+  wordParagraph: Word.Paragraph,
+  characters: Word.RangeCollection,
+  startOffset: number,
+  endOffset: number
+): Word.Range | null {
+  const paragraphText = wordParagraph.text;
+  const leadingWhitespace = paragraphText.length - paragraphText.replace(/^\s+/, "").length;
+  const trimmedLength = paragraphText.trim().length;
+
+  if (startOffset < 0 || endOffset < startOffset || endOffset > trimmedLength) {
+    console.warn(
+      `⚠️ Offsets ${startOffset}-${endOffset} are outside paragraph text (length ${trimmedLength})`
+    );
+    return null;
+  }
+
+  const indexMap = mapTextToCharacterRanges(paragraphText, characters.items);
+  const rangeAt = (textIndex: number): Word.Range | null => {
+    const rangeIndex = indexMap[textIndex];
+    return rangeIndex === undefined || rangeIndex < 0 ? null : characters.items[rangeIndex];
+  };
+
+  const absoluteStart = leadingWhitespace + startOffset;
+  const absoluteEnd = leadingWhitespace + endOffset;
+
+  if (absoluteStart === absoluteEnd) {
+    // Insertion point: collapse onto the neighbouring character
+    const following = rangeAt(absoluteStart);
+    if (following) {
+      return following.getRange(Word.RangeLocation.start);
+    }
+    const preceding = absoluteStart > 0 ? rangeAt(absoluteStart - 1) : null;
+    if (preceding) {
+      return preceding.getRange(Word.RangeLocation.end);
+    }
+    return absoluteStart === 0 ? wordParagraph.getRange(Word.RangeLocation.start) : null;
+  }
+
+  const first = rangeAt(absoluteStart);
+  const last = rangeAt(absoluteEnd - 1);
+  if (!first || !last) {
+    console.warn(`⚠️ No character range for offsets ${startOffset}-${endOffset}`);
+    return null;
+  }
+
+  return first === last ? first : first.expandTo(last);
+}
+
+/**
+ * Corrections of one Word paragraph whose ranges should be resolved together
+ */
+export interface ParagraphRangeGroup {
+  wordParagraph: Word.Paragraph;
+  corrections: CorrectionObject[];
+}
+
+/**
+ * Paragraphs whose characters are loaded per round-trip when resolving ranges in bulk.
+ * Bounds the size of a single request on long documents.
+ */
+export const RANGE_BATCH_SIZE = 50;
+
+/**
+ * Resolve the Word ranges of many corrections with one sync per batch of paragraphs,
+ * instead of one per correction. spanOf picks the offsets to resolve (the correction's own by default).
+ * Corrections whose span can't be resolved are missing from the result.
+ */
+export async function resolveCorrectionRanges(
+  context: Word.RequestContext,
+  groups: ParagraphRangeGroup[],
+  spanOf: (correction: CorrectionObject) => [number, number] | null = (correction) => [
+    correction.startOffset,
+    correction.endOffset,
+  ],
+  cancellation?: CancellationToken
+): Promise<{ ranges: { [correctionId: string]: Word.Range }; roundTrips: number }> {
+  const ranges: { [correctionId: string]: Word.Range } = {};
+  let roundTrips = 0;
+
+  for (let batchStart = 0; batchStart < groups.length; batchStart += RANGE_BATCH_SIZE) {
+    if (cancellation) cancellation.throwIfCancelled();
+    const batch = groups.slice(batchStart, batchStart + RANGE_BATCH_SIZE);
+    const characterSets = batch.map((group) => loadParagraphCharacters(group.wordParagraph));
+    await context.sync();
+    roundTrips++;
+
+    batch.forEach((group, index) => {
+      group.corrections.forEach((correction) => {
+        const span = spanOf(correction);
+        const range = span
+          ? buildRangeForOffsets(group.wordParagraph, characterSets[index], span[0], span[1])
+          : null;
+        if (range) {
+          ranges[correction.id] = range;
+        }
+      });
+    });
+  }
+
+  return { ranges, roundTrips };
+}
+
+/**
+ * Resolve the exact Word.Range for a correction within its paragraph.
+ * The range is only valid inside the request context it was resolved in.
+ */
+export async function resolveCorrectionRange(
+  context: Word.RequestContext,
+  wordParagraph: Word.Paragraph,
+  correction: CorrectionObject
+): Promise<Word.Range | null> {
+  try {
+    const characters = loadParagraphCharacters(wordParagraph);
+    await context.sync();
+
+    const range = buildRangeForOffsets(
+      wordParagraph,
+      characters,
+      correction.startOffset,
+      correction.endOffset
+    );
+    return range;
+  } catch (error) {
+    console.error("Error creating Word range:", error);
+    return null;
+  }
+}
@@ -0,0 +1,60 @@
+import { CorrectionObject } from "../../src/taskpane/utils/documentMapping";
+
+/**
+ * A correction for tests that only care about a few fields: an empty pending addition
+ * at the start of paragraph 1, with the given fields filled in
+ */
+export function makeCorrection(fields: Partial<CorrectionObject>): CorrectionObject {
+  return {
+    id: "test-error-1",
+    paragraphNumber: 1,
+    wordNativeParaId: "",
+    originalText: "",
+    correctedText: "",
+    changeType: "addition",
+    startOffset: 0,
+    endOffset: 0,
+    status: "pending",
+    diffText: "",
+    suggestion: "",
+    actionDescription: "",
+    errorType: "Missing",
+    ...fields,
+  };
+}
+
+/**
+ * Apply the text changes of a paragraph's corrections to the text they were computed against.
+ * Corrections are applied right to left so their original offsets stay valid; formatting and
+ * style corrections leave the text alone.
+ */
+export function applyTextCorrections(text: string, corrections: CorrectionObject[]): string {
+  return corrections
+    .filter(
+      (correction) =>
+        correction.changeType === "addition" ||
+        correction.changeType === "deletion" ||
+        correction.changeType === "modification"
+    )
+    .sort((a, b) => b.startOffset - a.startOffset)
+    .reduce((result, correction) => {
+      switch (correction.changeType) {
+        case "addition":
+          return (
+            result.substring(0, correction.startOffset) +
+            correction.diffText +
+            result.substring(correction.startOffset)
+          );
+        case "deletion":
+          return (
+            result.substring(0, correction.startOffset) + result.substring(correction.endOffset)
+          );
+        default:
+          return (
+            result.substring(0, correction.startOffset) +
+            (correction.replacementText || "") +
+            result.substring(correction.endOffset)
+          );
+      }
+    }, text);
+}
@@ -0,0 +1,969 @@
+/**
+ * In-memory fake of the Word JavaScript API subset the add-in uses
+ * Paragraphs, ranges, search, insertText/delete, fonts, content controls, OOXML round-trips,
+ * change tracking and document settings, over a document model tests can build and inspect.
+ *
+ * Like Office.js, properties must be loaded and synced before they can be read, and a failed
+ * operation is reported when the batch is synced. Edits take effect immediately in the model.
+ * Tracked changes are recorded in `revisions`; paragraph text always shows the document
+ * as if every revision were accepted. Ranges keep the offsets they were created with, so
+ * don't reuse a range after editing text before it.
+ */
+
+import { InlineStyle } from "../../src/taskpane/utils/markerParser";
+
+export interface MockFontState {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: string;
+  strikeThrough?: boolean;
+  superscript?: boolean;
+  subscript?: boolean;
+  color?: string;
+  highlightColor?: string | null;
+}
+
+type MockFontProperty = keyof MockFontState;
+
+const FONT_PROPERTIES: MockFontProperty[] = [
+  "bold",
+  "italic",
+  "underline",
+  "strikeThrough",
+  "superscript",
+  "subscript",
+  "color",
+  "highlightColor",
+];
+
+export interface MockCharacter {
+  char: string;
+  font: MockFontState;
+  controls: number[]; // IDs of the content controls wrapping this character
+}
+
+export interface MockParagraphState {
+  paraId: string | null;
+  style: string;
+  styleBuiltIn: string;
+  characters: MockCharacter[];
+}
+
+export interface MockContentControlState {
+  id: number;
+  tag: string;
+  title: string;
+  appearance: string;
+  color: string;
+}
+
+export interface MockRevision {
+  type: "Insertion" | "Deletion";
+  text: string;
+  paraId: string | null;
+}
+
+export interface MockParagraphInit {
+  text: string;
+  paraId?: string | null;
+  style?: string;
+  styleBuiltIn?: string;
+  font?: MockFontState;
+}
+
+/**
+ * Error raised for operations Word would reject, surfaced from context.sync()
+ */
+export class MockWordError extends Error {
+  constructor(
+    public code: string,
+    message: string
+  ) {
+    super(`${code}: ${message}`);
+    Object.setPrototypeOf(this, MockWordError.prototype);
+    this.name = "MockWordError";
+  }
+}
+
+function toCharacters(text: string, font: MockFontState = {}): MockCharacter[] {
+  return text.split("").map((char) => ({ char, font: { ...font }, controls: [] }));
+}
+
+/**
+ * The document model behind the fake API
+ */
+export class MockWordDocument {
+  paragraphs: MockParagraphState[];
+  contentControls: MockContentControlState[] = [];
+  changeTrackingMode = "Off";
+  revisions: MockRevision[] = [];
+  settings: { [key: string]: any } = {};
+  selection: { paragraph: MockParagraphState; start: number; end: number } | null = null;
+  syncCount = 0;
+  private nextControlId = 1;
+
+  constructor(paragraphs: (string | MockParagraphInit)[]) {
+    this.paragraphs = paragraphs.map((paragraph) => {
+      const init = typeof paragraph === "string" ? { text: paragraph } : paragraph;
+      return {
+        paraId: init.paraId || null,
+        style: init.style || "Normal",
+        styleBuiltIn: init.styleBuiltIn || "Normal",
+        characters: toCharacters(init.text, init.font),
+      };
+    });
+  }
+
+  /**
+   * A document with one paragraph per pipeline paragraph, as it was before editing
+   */
+  static fromDocumentData(documentData: {
+    paragraphs: { word_native_para_id: string; original_text_no_markers: string }[];
+  }): MockWordDocument {
+    return new MockWordDocument(
+      documentData.paragraphs.map((paragraph) => ({
+        text: paragraph.original_text_no_markers,
+        paraId: paragraph.word_native_para_id,
+      }))
+    );
+  }
+
+  paragraphText(index: number): string {
+    return this.paragraphs[index].characters.map((character) => character.char).join("");
+  }
+
+  /**
+   * Text of every paragraph, one per line
+   */
+  getText(): string {
+    return this.paragraphs.map((_paragraph, index) => this.paragraphText(index)).join("\n");
+  }
+
+  /**
+   * Text wrapped by the content controls with a tag
+   */
+  controlTexts(tag: string): string[] {
+    return this.contentControls
+      .filter((control) => control.tag === tag)
+      .map((control) => this.controlText(control));
+  }
+
+  controlText(control: MockContentControlState): string {
+    return this.paragraphs
+      .map((paragraph) =>
+        paragraph.characters
+          .filter((character) => character.controls.indexOf(control.id) !== -1)
+          .map((character) => character.char)
+          .join("")
+      )
+      .join("");
+  }
+
+  /**
+   * Font of one character
+   */
+  fontAt(paragraphIndex: number, offset: number): MockFontState {
+    return this.paragraphs[paragraphIndex].characters[offset].font;
+  }
+
+  /**
+   * Whether the character at offset carries an inline style, reading underline as on unless 'None'
+   */
+  inlineStyleAt(paragraphIndex: number, offset: number, style: InlineStyle): boolean {
+    const font = this.fontAt(paragraphIndex, offset);
+    if (style === "underline") return !!font.underline && font.underline !== "None";
+    return !!font[style];
+  }
+
+  addContentControl(
+    paragraph: MockParagraphState,
+    start: number,
+    end: number
+  ): MockContentControlState {
+    const control: MockContentControlState = {
+      id: this.nextControlId++,
+      tag: "",
+      title: "",
+      appearance: "BoundingBox",
+      color: "",
+    };
+    this.contentControls.push(control);
+    paragraph.characters
+      .slice(start, end)
+      .forEach((character) => character.controls.push(control.id));
+    return control;
+  }
+
+  removeContentControl(control: MockContentControlState, keepContent: boolean): void {
+    this.contentControls = this.contentControls.filter((existing) => existing !== control);
+    this.paragraphs.forEach((paragraph) => {
+      if (!keepContent) {
+        paragraph.characters = paragraph.characters.filter(
+          (character) => character.controls.indexOf(control.id) === -1
+        );
+      }
+      paragraph.characters.forEach((character) => {
+        character.controls = character.controls.filter((id) => id !== control.id);
+      });
+    });
+  }
+
+  /**
+   * Insert text into a paragraph, formatted like the character before it (or else after it)
+   */
+  insertCharacters(paragraph: MockParagraphState, at: number, text: string): void {
+    const before = paragraph.characters[at - 1];
+    const after = paragraph.characters[at];
+    const template = before || after;
+    // Text typed inside a content control stays inside it
+    const controls =
+      before && after ? before.controls.filter((id) => after.controls.indexOf(id) !== -1) : [];
+    const inserted = toCharacters(text, template ? template.font : {});
+    inserted.forEach((character) => {
+      character.controls = controls.slice();
+    });
+    paragraph.characters.splice(at, 0, ...inserted);
+    if (text && this.changeTrackingMode !== "Off") {
+      this.revisions.push({ type: "Insertion", text, paraId: paragraph.paraId });
+    }
+  }
+
+  removeCharacters(paragraph: MockParagraphState, start: number, end: number): void {
+    const removed = paragraph.characters.splice(start, end - start);
+    if (removed.length > 0 && this.changeTrackingMode !== "Off") {
+      this.revisions.push({
+        type: "Deletion",
+        text: removed.map((character) => character.char).join(""),
+        paraId: paragraph.paraId,
+      });
+    }
+  }
+}
+
+/**
+ * A value returned by a method such as getOoxml(), readable after the next sync
+ */
+export class MockClientResult<T> {
+  private ready = false;
+
+  constructor(private result: T) {}
+
+  get value(): T {
+    if (!this.ready) {
+      throw new MockWordError(
+        "PropertyNotLoaded",
+        "The value of the result object has not been loaded yet"
+      );
+    }
+    return this.result;
+  }
+
+  markReady(): void {
+    this.ready = true;
+  }
+}
+
+/**
+ * Base of every proxy object: tracks load() calls and the values loaded at sync
+ */
+abstract class MockClientObject {
+  private pendingLoads: string[] = [];
+  private loadedValues: { [name: string]: any } = {};
+
+  constructor(public context: MockRequestContext) {}
+
+  protected abstract scalarProperties: string[];
+  protected abstract readProperty(name: string): any;
+
+  load(properties?: string | string[]): this {
+    const paths =
+      properties === undefined
+        ? [""]
+        : (Array.isArray(properties) ? properties : properties.split(",")).map((path) =>
+            path.trim()
+          );
+    this.pendingLoads.push(...paths);
+    this.context.trackLoad(this);
+    return this;
+  }
+
+  flushLoads(): void {
+    const paths = this.pendingLoads;
+    this.pendingLoads = [];
+    paths.forEach((path) => this.loadPath(path));
+  }
+
+  loadPath(path: string): void {
+    if (!path) {
+      this.scalarProperties.forEach((name) => {
+        this.loadedValues[name] = this.readProperty(name);
+      });
+      return;
+    }
+    const separator = path.indexOf("/");
+    const name = separator === -1 ? path : path.substring(0, separator);
+    const rest = separator === -1 ? "" : path.substring(separator + 1);
+    const value = this.readProperty(name);
+    this.loadedValues[name] = value;
+    if (Array.isArray(value)) {
+      value.forEach((child: MockClientObject) => child.loadPath(rest));
+    } else if (value instanceof MockClientObject) {
+      value.loadPath(rest);
+    }
+  }
+
+  protected loaded(name: string): any {
+    if (!(name in this.loadedValues)) {
+      throw new MockWordError(
+        "PropertyNotLoaded",
+        `The property '${name}' is not available. Load it and call context.sync() first.`
+      );
+    }
+    return this.loadedValues[name];
+  }
+
+  protected setLoaded(name: string, value: any): void {
+    this.loadedValues[name] = value;
+  }
+}
+
+export class MockFont extends MockClientObject {
+  protected scalarProperties = FONT_PROPERTIES;
+
+  constructor(
+    context: MockRequestContext,
+    private range: MockRange
+  ) {
+    super(context);
+  }
+
+  protected readProperty(name: string): any {
+    const values = this.range
+      .characters()
+      .map((character) => character.font[name as MockFontProperty]);
+    return values.length > 0 && values.every((value) => value === values[0]) ? values[0] : null;
+  }
+
+  private write<K extends MockFontProperty>(name: K, value: MockFontState[K]): void {
+    this.range.characters().forEach((character) => {
+      character.font[name] = value;
+    });
+    this.setLoaded(name, value);
+  }
+
+  get bold(): boolean {
+    return this.loaded("bold");
+  }
+  set bold(value: boolean) {
+    this.write("bold", value);
+  }
+  get italic(): boolean {
+    return this.loaded("italic");
+  }
+  set italic(value: boolean) {
+    this.write("italic", value);
+  }
+  get underline(): string {
+    return this.loaded("underline");
+  }
+  set underline(value: string) {
+    this.write("underline", value);
+  }
+  get strikeThrough(): boolean {
+    return this.loaded("strikeThrough");
+  }
+  set strikeThrough(value: boolean) {
+    this.write("strikeThrough", value);
+  }
+  get superscript(): boolean {
+    return this.loaded("superscript");
+  }
+  set superscript(value: boolean) {
+    this.write("superscript", value);
+  }
+  get subscript(): boolean {
+    return this.loaded("subscript");
+  }
+  set subscript(value: boolean) {
+    this.write("subscript", value);
+  }
+  get color(): string {
+    return this.loaded("color");
+  }
+  set color(value: string) {
+    this.write("color", value);
+  }
+  get highlightColor(): string | null {
+    return this.loaded("highlightColor");
+  }
+  set highlightColor(value: string | null) {
+    this.write("highlightColor", value);
+  }
+}
+
+export class MockRange extends MockClientObject {
+  protected scalarProperties = ["text"];
+
+  constructor(
+    context: MockRequestContext,
+    public paragraph: MockParagraphState,
+    public start: number,
+    public end: number
+  ) {
+    super(context);
+  }
+
+  characters(): MockCharacter[] {
+    return this.paragraph.characters.slice(this.start, this.end);
+  }
+
+  protected readProperty(name: string): any {
+    switch (name) {
+      case "text":
+        return this.characters()
+          .map((character) => character.char)
+          .join("");
+      case "font":
+        return this.font;
+      default:
+        throw new MockWordError("PropertyNotFound", `Range has no property '${name}'`);
+    }
+  }
+
+  get text(): string {
+    return this.loaded("text");
+  }
+
+  get font(): MockFont {
+    return new MockFont(this.context, this);
+  }
+
+  getRange(location: string = "Whole"): MockRange {
+    switch (location) {
+      case "Start":
+        return new MockRange(this.context, this.paragraph, this.start, this.start);
+      case "End":
+        return new MockRange(this.context, this.paragraph, this.end, this.end);
+      case "Whole":
+      case "Content":
+        return new MockRange(this.context, this.paragraph, this.start, this.end);
+      default:
+        this.context.fail(
+          new MockWordError(
+            "NotImplemented",
+            `getRange('${location}') is not supported by the mock`
+          )
+        );
+        return this;
+    }
+  }
+
+  expandTo(other: MockRange): MockRange {
+    if (other.paragraph !== this.paragraph) {
+      this.context.fail(
+        new MockWordError(
+          "NotImplemented",
+          "expandTo across paragraphs is not supported by the mock"
+        )
+      );
+      return this;
+    }
+    return new MockRange(
+      this.context,
+      this.paragraph,
+      Math.min(this.start, other.start),
+      Math.max(this.end, other.end)
+    );
+  }
+
+  insertText(text: string, location: string): MockRange {
+    const document = this.context.documentState;
+    let at: number;
+    switch (location) {
+      case "Replace":
+        document.removeCharacters(this.paragraph, this.start, this.end);
+        at = this.start;
+        break;
+      case "Start":
+      case "Before":
+        at = this.start;
+        break;
+      case "End":
+      case "After":
+        at = this.end;
+        break;
+      default:
+        this.context.fail(
+          new MockWordError("InvalidArgument", `Unknown insert location '${location}'`)
+        );
+        return this;
+    }
+    document.insertCharacters(this.paragraph, at, text);
+    return new MockRange(this.context, this.paragraph, at, at + text.length);
+  }
+
+  delete(): void {
+    this.context.documentState.removeCharacters(this.paragraph, this.start, this.end);
+  }
+
+  insertContentControl(): MockContentControl {
+    if (this.end <= this.start) {
+      this.context.fail(
+        new MockWordError(
+          "InvalidArgument",
+          "A content control needs a non-empty range in the mock"
+        )
+      );
+    }
+    return new MockContentControl(
+      this.context,
+      this.context.documentState.addContentControl(this.paragraph, this.start, this.end)
+    );
+  }
+
+  search(
+    searchText: string,
+    options: { matchCase?: boolean; matchWildcards?: boolean } = {}
+  ): MockRangeCollection {
+    const text = this.readProperty("text") as string;
+    const ranges: MockRange[] = [];
+    if (options.matchWildcards) {
+      if (searchText !== "?") {
+        this.context.fail(
+          new MockWordError(
+            "NotImplemented",
+            `Wildcard search '${searchText}' is not supported by the mock`
+          )
+        );
+      } else {
+        for (let index = 0; index < text.length; index++) {
+          ranges.push(
+            new MockRange(this.context, this.paragraph, this.start + index, this.start + index + 1)
+          );
+        }
+      }
+    } else if (searchText) {
+      const haystack = options.matchCase ? text : text.toLowerCase();
+      const needle = options.matchCase ? searchText : searchText.toLowerCase();
+      let index = haystack.indexOf(needle);
+      while (index !== -1) {
+        ranges.push(
+          new MockRange(
+            this.context,
+            this.paragraph,
+            this.start + index,
+            this.start + index + needle.length
+          )
+        );
+        index = haystack.indexOf(needle, index + needle.length);
+      }
+    }
+    return new MockRangeCollection(this.context, ranges);
+  }
+
+  select(): void {
+    this.context.documentState.selection = {
+      paragraph: this.paragraph,
+      start: this.start,
+      end: this.end,
+    };
+  }
+}
+
+export class MockRangeCollection extends MockClientObject {
+  protected scalarProperties: string[] = [];
+
+  constructor(
+    context: MockRequestContext,
+    private ranges: MockRange[]
+  ) {
+    super(context);
+  }
+
+  protected readProperty(name: string): any {
+    if (name !== "items")
+      throw new MockWordError("PropertyNotFound", `RangeCollection has no property '${name}'`);
+    return this.ranges;
+  }
+
+  get items(): MockRange[] {
+    return this.loaded("items");
+  }
+}
+
+/**
+ * Paragraph OOXML: just enough of the package to read the paragraph's paraId from
+ */
+function paragraphOoxml(paragraph: MockParagraphState): string {
+  const paraId = paragraph.paraId ? ` w14:paraId="${paragraph.paraId}" w14:textId="77777777"` : "";
+  return (
+    `<pkg:package><pkg:part pkg:name="/word/document.xml"><pkg:xmlData><w:document><w:body>` +
+    `<w:p${paraId}></w:p></w:body></w:document></pkg:xmlData></pkg:part></pkg:package>`
+  );
+}
+
+export class MockParagraph extends MockClientObject {
+  protected scalarProperties = ["text", "style", "styleBuiltIn"];
+
+  constructor(
+    context: MockRequestContext,
+    public state: MockParagraphState
+  ) {
+    super(context);
+  }
+
+  private whole(): MockRange {
+    return new MockRange(this.context, this.state, 0, this.state.characters.length);
+  }
+
+  protected readProperty(name: string): any {
+    switch (name) {
+      case "text":
+        return this.state.characters.map((character) => character.char).join("");
+      case "style":
+        return this.state.style;
+      case "styleBuiltIn":
+        return this.state.styleBuiltIn;
+      case "font":
+        return this.font;
+      default:
+        throw new MockWordError("PropertyNotFound", `Paragraph has no property '${name}'`);
+    }
+  }
+
+  get text(): string {
+    return this.loaded("text");
+  }
+
+  get style(): string {
+    return this.loaded("style");
+  }
+
+  set style(value: string) {
+    this.state.style = value;
+    this.setLoaded("style", value);
+  }
+
+  get styleBuiltIn(): string {
+    return this.loaded("styleBuiltIn");
+  }
+
+  set styleBuiltIn(value: string) {
+    this.state.styleBuiltIn = value;
+    this.state.style = value;
+    this.setLoaded("styleBuiltIn", value);
+  }
+
+  get font(): MockFont {
+    return this.whole().font;
+  }
+
+  getRange(location: string = "Whole"): MockRange {
+    return this.whole().getRange(location);
+  }
+
+  search(
+    searchText: string,
+    options?: { matchCase?: boolean; matchWildcards?: boolean }
+  ): MockRangeCollection {
+    return this.whole().search(searchText, options);
+  }
+
+  insertText(text: string, location: string): MockRange {
+    return this.whole().insertText(text, location);
+  }
+
+  getOoxml(): MockClientResult<string> {
+    return this.context.trackResult(new MockClientResult(paragraphOoxml(this.state)));
+  }
+}
+
+export class MockParagraphCollection extends MockClientObject {
+  protected scalarProperties: string[] = [];
+
+  protected readProperty(name: string): any {
+    if (name !== "items")
+      throw new MockWordError("PropertyNotFound", `ParagraphCollection has no property '${name}'`);
+    return this.context.documentState.paragraphs.map((state) => this.context.paragraphProxy(state));
+  }
+
+  get items(): MockParagraph[] {
+    return this.loaded("items");
+  }
+}
+
+export class MockContentControl extends MockClientObject {
+  protected scalarProperties = ["tag", "title", "appearance", "color", "text"];
+
+  constructor(
+    context: MockRequestContext,
+    public state: MockContentControlState
+  ) {
+    super(context);
+  }
+
+  protected readProperty(name: string): any {
+    if (name === "text") {
+      return this.context.documentState.controlText(this.state);
+    }
+    if (this.scalarProperties.indexOf(name) === -1) {
+      throw new MockWordError("PropertyNotFound", `ContentControl has no property '${name}'`);
+    }
+    return this.state[name as keyof MockContentControlState];
+  }
+
+  private write(name: "tag" | "title" | "appearance" | "color", value: string): void {
+    this.state[name] = value;
+    this.setLoaded(name, value);
+  }
+
+  get tag(): string {
+    return this.loaded("tag");
+  }
+  set tag(value: string) {
+    this.write("tag", value);
+  }
+  get title(): string {
+    return this.loaded("title");
+  }
+  set title(value: string) {
+    this.write("title", value);
+  }
+  get appearance(): string {
+    return this.loaded("appearance");
+  }
+  set appearance(value: string) {
+    this.write("appearance", value);
+  }
+  get color(): string {
+    return this.loaded("color");
+  }
+  set color(value: string) {
+    this.write("color", value);
+  }
+
+  delete(keepContent: boolean): void {
+    this.context.documentState.removeContentControl(this.state, keepContent);
+  }
+}
+
+export class MockContentControlCollection extends MockClientObject {
+  protected scalarProperties: string[] = [];
+
+  constructor(
+    context: MockRequestContext,
+    private tag: string | null = null
+  ) {
+    super(context);
+  }
+
+  protected readProperty(name: string): any {
+    if (name !== "items")
+      throw new MockWordError(
+        "PropertyNotFound",
+        `ContentControlCollection has no property '${name}'`
+      );
+    return this.context.documentState.contentControls
+      .filter((control) => this.tag === null || control.tag === this.tag)
+      .map((control) => new MockContentControl(this.context, control));
+  }
+
+  get items(): MockContentControl[] {
+    return this.loaded("items");
+  }
+
+  getByTag(tag: string): MockContentControlCollection {
+    return new MockContentControlCollection(this.context, tag);
+  }
+}
+
+export class MockDocument extends MockClientObject {
+  protected scalarProperties = ["changeTrackingMode"];
+  body: { paragraphs: MockParagraphCollection };
+  contentControls: MockContentControlCollection;
+
+  constructor(context: MockRequestContext) {
+    super(context);
+    this.body = { paragraphs: new MockParagraphCollection(context) };
+    this.contentControls = new MockContentControlCollection(context);
+  }
+
+  protected readProperty(name: string): any {
+    if (name !== "changeTrackingMode")
+      throw new MockWordError("PropertyNotFound", `Document has no property '${name}'`);
+    return this.context.documentState.changeTrackingMode;
+  }
+
+  get changeTrackingMode(): string {
+    return this.loaded("changeTrackingMode");
+  }
+
+  set changeTrackingMode(value: string) {
+    this.context.documentState.changeTrackingMode = value;
+    this.setLoaded("changeTrackingMode", value);
+  }
+}
+
+export class MockRequestContext {
+  document: MockDocument;
+  private loads: MockClientObject[] = [];
+  private results: MockClientResult<any>[] = [];
+  private paragraphProxies: MockParagraph[] = [];
+  private failure: Error | null = null;
+
+  constructor(public documentState: MockWordDocument) {
+    this.document = new MockDocument(this);
+  }
+
+  trackLoad(object: MockClientObject): void {
+    if (this.loads.indexOf(object) === -1) this.loads.push(object);
+  }
+
+  trackResult<T>(result: MockClientResult<T>): MockClientResult<T> {
+    this.results.push(result);
+    return result;
+  }
+
+  /**
+   * Record a failed operation; the next sync rejects with it
+   */
+  fail(error: Error): void {
+    if (!this.failure) this.failure = error;
+  }
+
+  /**
+   * One proxy per paragraph within a context, so proxies compare by identity like Word's
+   */
+  paragraphProxy(state: MockParagraphState): MockParagraph {
+    const existing = this.paragraphProxies.filter((proxy) => proxy.state === state)[0];
+    if (existing) return existing;
+    const proxy = new MockParagraph(this, state);
+    this.paragraphProxies.push(proxy);
+    return proxy;
+  }
+
+  async sync(): Promise<void> {
+    this.documentState.syncCount++;
+    const failure = this.failure;
+    this.failure = null;
+    if (failure) {
+      this.loads = [];
+      this.results = [];
+      throw failure;
+    }
+    const loads = this.loads;
+    const results = this.results;
+    this.loads = [];
+    this.results = [];
+    loads.forEach((object) => object.flushLoads());
+    results.forEach((result) => result.markReady());
+  }
+}
+
+export interface WordMockOptions {
+  wordApiVersion?: string; // Highest WordApi requirement set the host reports, '1.4' by default
+  failSettingsSave?: boolean;
+}
+
+/**
+ * Enumerations the add-in reads from the Word namespace, with Office.js string values
+ */
+const WORD_ENUMS = {
+  RangeLocation: {
+    whole: "Whole",
+    start: "Start",
+    end: "End",
+    before: "Before",
+    after: "After",
+    content: "Content",
+  },
+  InsertLocation: {
+    replace: "Replace",
+    start: "Start",
+    end: "End",
+    before: "Before",
+    after: "After",
+  },
+  ChangeTrackingMode: { off: "Off", trackAll: "TrackAll", trackMineOnly: "TrackMineOnly" },
+  UnderlineType: { none: "None", single: "Single", double: "Double" },
+};
+
+function compareVersions(a: string, b: string): number {
+  const left = a.split(".").map(Number);
+  const right = b.split(".").map(Number);
+  for (let index = 0; index < Math.max(left.length, right.length); index++) {
+    const difference = (left[index] || 0) - (right[index] || 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
+
+/**
+ * Install global Word and Office objects backed by the document.
+ * Word.run batches sync when the callback returns, as in Office.js.
+ */
+export function installWordMock(document: MockWordDocument, options: WordMockOptions = {}): void {
+  const wordApiVersion = options.wordApiVersion || "1.4";
+  const globals = global as any;
+
+  globals.Word = {
+    ...WORD_ENUMS,
+    run: async <T>(batch: (context: MockRequestContext) => Promise<T>): Promise<T> => {
+      const context = new MockRequestContext(document);
+      const result = await batch(context);
+      await context.sync();
+      return result;
+    },
+  };
+
+  globals.Office = {
+    AsyncResultStatus: { Succeeded: "succeeded", Failed: "failed" },
+    context: {
+      requirements: {
+        isSetSupported: (name: string, version: string = "1.1") =>
+          name === "WordApi" && compareVersions(version, wordApiVersion) <= 0,
+      },
+      document: {
+        settings: {
+          get: (key: string) => (key in document.settings ? document.settings[key] : null),
+          set: (key: string, value: any) => {
+            document.settings[key] = JSON.parse(JSON.stringify(value));
+          },
+          remove: (key: string) => {
+            delete document.settings[key];
+          },
+          saveAsync: (callback: (result: { status: string; error?: Error }) => void) => {
+            callback(
+              options.failSettingsSave
+                ? { status: "failed", error: new Error("Settings could not be saved") }
+                : { status: "succeeded" }
+            );
+          },
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Remove the globals installed by installWordMock
+ */
+export function uninstallWordMock(): void {
+  const globals = global as any;
+  delete globals.Word;
+  delete globals.Office;
+}
+
+/**
+ * Run a batch against the document without going through the Word global,
+ * typed as Office.js so it can be handed to the add-in's functions
+ */
+export async function runWithMockContext<T>(
+  document: MockWordDocument,
+  batch: (context: Word.RequestContext) => Promise<T>
+): Promise<T> {
+  const context = new MockRequestContext(document);
+  const result = await batch(context as unknown as Word.RequestContext);
+  await context.sync();
+  return result;
+}
@@ -0,0 +1,76 @@
+/**
+ * Fixture pairs for the golden-file corpus: a pipeline JSON and the Word paragraphs it was produced from
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { DocumentData, DocumentParagraph } from "../../src/taskpane/utils/documentMapping";
+import { readDocxParagraphs } from "../../src/cli/docxReader";
+
+const ROOT = path.join(__dirname, "../..");
+
+const IRANI_JSON = "Irani Ch 22 with synthetic errors- 2p_edited_json_157.json";
+const TEST_DOCUMENT_JSON = "test-document.json";
+
+export interface CorpusFixture {
+  name: string;
+  documentData: DocumentData;
+  paragraphs: DocumentParagraph[];
+}
+
+function readJson(file: string): DocumentData {
+  return JSON.parse(fs.readFileSync(path.join(ROOT, file), "utf8"));
+}
+
+/**
+ * Word paragraphs from a plain-text export in which the paragraphs were joined without separators,
+ * cut back apart at the lengths of the JSON's original paragraphs
+ */
+function splitJoinedText(file: string, documentData: DocumentData): DocumentParagraph[] {
+  const text = fs.readFileSync(path.join(ROOT, file), "utf8");
+  const expectedLength = documentData.paragraphs.reduce(
+    (total, paragraph) => total + paragraph.original_text_no_markers.length,
+    0
+  );
+  if (text.length !== expectedLength) {
+    throw new Error(
+      `${file} has ${text.length} characters but the JSON paragraphs add up to ${expectedLength}`
+    );
+  }
+
+  let offset = 0;
+  return documentData.paragraphs.map((paragraph) => {
+    const length = paragraph.original_text_no_markers.length;
+    const paragraphText = text.substring(offset, offset + length);
+    offset += length;
+    return {
+      text: paragraphText,
+      paraId: paragraph.word_native_para_id,
+      style: "Normal",
+      styleBuiltIn: "Normal",
+    };
+  });
+}
+
+export function loadCorpus(): CorpusFixture[] {
+  const irani = readJson(IRANI_JSON);
+  const testDocument = readJson(TEST_DOCUMENT_JSON);
+
+  return [
+    {
+      name: "irani-docx",
+      documentData: irani,
+      paragraphs: readDocxParagraphs(fs.readFileSync(path.join(ROOT, "correct_irani_file.docx"))),
+    },
+    {
+      name: "irani-exact-word-text",
+      documentData: irani,
+      paragraphs: splitJoinedText("EXACT-WORD-TEXT.txt", irani),
+    },
+    {
+      name: "test-document-exact",
+      documentData: testDocument,
+      paragraphs: splitJoinedText("test-document-exact.txt", testDocument),
+    },
+  ];
+}
@@ -0,0 +1,93 @@
+/**
+ * Golden-file regression corpus: the corrections generated for each fixture pair are snapshotted,
+ * so a change to marker removal, diffing or diff cleanup shows up as a reviewable snapshot diff.
+ * Update the snapshots with `npm test -- -u` after checking the diff.
+ */
+
+import {
+  generateCorrections,
+  CorrectionObject,
+  CorrectionProcessingResult,
+} from "../../src/taskpane/utils/documentMapping";
+import { parseMarkedText } from "../../src/taskpane/utils/markerParser";
+import { applyTextCorrections } from "../helpers/correctionText";
+import { loadCorpus } from "./fixtures";
+
+/**
+ * The fields of a correction that describe what it changes
+ */
+function goldenCorrection(correction: CorrectionObject) {
+  return {
+    id: correction.id,
+    paragraphNumber: correction.paragraphNumber,
+    changeType: correction.changeType,
+    startOffset: correction.startOffset,
+    endOffset: correction.endOffset,
+    diffText: correction.diffText,
+    replacementText: correction.replacementText,
+    suggestion: correction.suggestion,
+  };
+}
+
+describe.each(loadCorpus())("golden corpus: $name", (fixture) => {
+  let result: CorrectionProcessingResult;
+
+  beforeAll(async () => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    result = await generateCorrections(fixture.documentData, fixture.paragraphs, {
+      granularity: "word",
+    });
+    jest.restoreAllMocks();
+  });
+
+  it("maps the paragraphs as before", () => {
+    expect(
+      result.paragraphMappings.map((mapping) => ({
+        outcome: mapping.outcome,
+        paragraphNumbers: mapping.paragraphNumbers,
+        wordParagraphIndexes: mapping.wordParagraphIndexes,
+      }))
+    ).toMatchSnapshot();
+    expect(result.warnings).toMatchSnapshot();
+  });
+
+  it("generates the same corrections as before", () => {
+    expect(result.corrections.map(goldenCorrection)).toMatchSnapshot();
+  });
+
+  it("reproduces latest_edited_text without markers when every correction is applied", () => {
+    const matched = result.paragraphMappings.filter(
+      (mapping) => mapping.outcome === "matched" && mapping.paragraphNumbers.length === 1
+    );
+    expect(matched.length).toBeGreaterThan(0);
+
+    matched.forEach((mapping) => {
+      const paragraph = fixture.documentData.paragraphs.filter(
+        (p) => p.paragraph_number === mapping.paragraphNumbers[0]
+      )[0];
+      const wordText = fixture.paragraphs[mapping.wordParagraphIndexes[0]].text.trim();
+      const corrections = result.corrections.filter(
+        (correction) => correction.paragraphNumber === paragraph.paragraph_number
+      );
+
+      expect({
+        paragraphNumber: paragraph.paragraph_number,
+        text: applyTextCorrections(wordText, corrections),
+      }).toEqual({
+        paragraphNumber: paragraph.paragraph_number,
+        text: parseMarkedText(paragraph.latest_edited_text).text,
+      });
+    });
+  });
+});
+
+describe("golden corpus fixtures", () => {
+  it("reads the paragraph styles of the docx fixture", () => {
+    const docx = loadCorpus().filter((fixture) => fixture.name === "irani-docx")[0];
+
+    expect(
+      docx.paragraphs.filter((paragraph) => paragraph.styleBuiltIn !== "Normal").length
+    ).toBeGreaterThan(0);
+  });
+});
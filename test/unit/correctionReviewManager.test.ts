@@ -0,0 +1,424 @@
+import * as fs from "fs";
+import * as path from "path";
+import { CorrectionObject, DocumentData } from "../../src/taskpane/utils/documentMapping";
+import { processCorrectionData } from "../../src/taskpane/utils/wordAdapter";
+import { CorrectionReviewManager } from "../../src/taskpane/utils/correctionReviewManager";
+import { parseMarkedText } from "../../src/taskpane/utils/markerParser";
+import { buildAuditReport } from "../../src/taskpane/utils/auditReport";
+import { readPersistedSession } from "../../src/taskpane/utils/sessionPersistence";
+import { applyTextCorrections } from "../helpers/correctionText";
+import {
+  MockWordDocument,
+  installWordMock,
+  uninstallWordMock,
+  runWithMockContext,
+} from "../mocks/wordMock";
+
+const testDocument: DocumentData = JSON.parse(
+  fs.readFileSync(path.join(__dirname, "../../test-document.json"), "utf8")
+);
+
+const PREVIEW_TAG_PREFIX = "correction_";
+
+describe("CorrectionReviewManager", () => {
+  let document: MockWordDocument;
+  let manager: CorrectionReviewManager;
+  let corrections: CorrectionObject[];
+
+  const paragraphIndexOf = (correction: CorrectionObject) => correction.wordParagraphIndex!;
+  const previewTags = () => document.contentControls.map((control) => control.tag);
+  const firstOfType = (changeType: CorrectionObject["changeType"]) => {
+    const correction = corrections.filter((c) => c.changeType === changeType)[0];
+    if (!correction) throw new Error(`test-document.json has no ${changeType} correction`);
+    return correction;
+  };
+  const firstSiblingGroup = () => {
+    const byParagraph: { [index: number]: CorrectionObject[] } = {};
+    corrections
+      .filter((c) => c.changeType !== "style" && c.changeType !== "formatting")
+      .forEach((c) => {
+        (byParagraph[paragraphIndexOf(c)] = byParagraph[paragraphIndexOf(c)] || []).push(c);
+      });
+    const siblings = Object.keys(byParagraph)
+      .map(Number)
+      .map((index) => byParagraph[index])
+      .filter((group) => group.length > 1)[0];
+    if (!siblings)
+      throw new Error("test-document.json has no paragraph with several text corrections");
+    return siblings;
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    document = MockWordDocument.fromDocumentData(testDocument);
+    installWordMock(document);
+    corrections = (
+      await runWithMockContext(document, (context) => processCorrectionData(context, testDocument))
+    ).corrections;
+    manager = new CorrectionReviewManager();
+  });
+
+  afterEach(async () => {
+    await manager.endReview();
+    uninstallWordMock();
+    jest.restoreAllMocks();
+  });
+
+  describe("startReview", () => {
+    it("marks every text correction with a tagged content control around its span", async () => {
+      const before = document.getText();
+      await manager.startReview(corrections);
+
+      expect(document.getText()).toBe(before);
+      const marked = corrections.filter((correction) => correction.changeType !== "style");
+      expect(previewTags().sort()).toEqual(
+        marked.map((correction) => `${PREVIEW_TAG_PREFIX}${correction.id}`).sort()
+      );
+
+      marked
+        .filter((correction) => correction.changeType !== "addition")
+        .forEach((correction) => {
+          expect(document.controlTexts(`${PREVIEW_TAG_PREFIX}${correction.id}`)).toEqual([
+            correction.originalText.substring(correction.startOffset, correction.endOffset),
+          ]);
+        });
+      expect(manager.getLastHighlightReport()).toMatchObject({
+        marked: marked.length,
+        fallback: 0,
+        failed: 0,
+      });
+    });
+
+    it("turns change tracking on for the session and restores it when the review ends", async () => {
+      await manager.startReview(corrections);
+      expect(document.changeTrackingMode).toBe("TrackAll");
+
+      await manager.endReview();
+      expect(document.changeTrackingMode).toBe("Off");
+      expect(document.contentControls).toHaveLength(0);
+    });
+
+    it("falls back to formatting mode on hosts without WordApi 1.4", async () => {
+      installWordMock(document, { wordApiVersion: "1.3" });
+      await manager.startReview(corrections);
+
+      expect(manager.getApplyMode()).toBe("formatting");
+      expect(document.changeTrackingMode).toBe("Off");
+    });
+  });
+
+  describe("applySpecificCorrection", () => {
+    beforeEach(async () => {
+      await manager.startReview(corrections);
+    });
+
+    it("deletes the text of a deletion as a tracked change", async () => {
+      const correction = firstOfType("deletion");
+      const expected =
+        correction.originalText.substring(0, correction.startOffset) +
+        correction.originalText.substring(correction.endOffset);
+
+      expect(await manager.applySpecificCorrection(correction.id)).toBe(true);
+
+      expect(document.paragraphText(paragraphIndexOf(correction))).toBe(expected);
+      expect(document.revisions).toContainEqual({
+        type: "Deletion",
+        text: correction.diffText,
+        paraId: correction.wordNativeParaId,
+      });
+      expect(manager.getCorrections().filter((c) => c.id === correction.id)[0].status).toBe(
+        "applied"
+      );
+    });
+
+    it("inserts the text of an addition at its offset", async () => {
+      const correction = firstOfType("addition");
+      const expected =
+        correction.originalText.substring(0, correction.startOffset) +
+        correction.diffText +
+        correction.originalText.substring(correction.startOffset);
+
+      expect(await manager.applySpecificCorrection(correction.id)).toBe(true);
+
+      expect(document.paragraphText(paragraphIndexOf(correction))).toBe(expected);
+      expect(document.revisions).toContainEqual({
+        type: "Insertion",
+        text: correction.diffText,
+        paraId: correction.wordNativeParaId,
+      });
+    });
+
+    it("replaces the text of a modification", async () => {
+      const correction = firstOfType("modification");
+      const expected =
+        correction.originalText.substring(0, correction.startOffset) +
+        correction.replacementText +
+        correction.originalText.substring(correction.endOffset);
+
+      expect(await manager.applySpecificCorrection(correction.id)).toBe(true);
+
+      expect(document.paragraphText(paragraphIndexOf(correction))).toBe(expected);
+    });
+
+    it("rebases the other corrections of the paragraph so they still apply", async () => {
+      const siblings = firstSiblingGroup();
+      const expected = applyTextCorrections(siblings[0].originalText, siblings);
+
+      // Applied left to right, each correction has been shifted by the edits before it
+      for (const correction of siblings) {
+        expect(await manager.applySpecificCorrection(correction.id)).toBe(true);
+      }
+      expect(document.paragraphText(paragraphIndexOf(siblings[0]))).toBe(expected);
+    });
+
+    it("sets the inline style of a formatting correction", async () => {
+      const correction = firstOfType("formatting");
+      const { style, value } = correction.formatting!;
+
+      expect(await manager.applySpecificCorrection(correction.id)).toBe(true);
+
+      expect(
+        document.inlineStyleAt(paragraphIndexOf(correction), correction.startOffset, style)
+      ).toBe(value);
+    });
+
+    it("applies the paragraph style of a style correction", async () => {
+      const correction = firstOfType("style");
+
+      expect(await manager.applySpecificCorrection(correction.id)).toBe(true);
+
+      const paragraph = document.paragraphs[paragraphIndexOf(correction)];
+      expect(paragraph.style).toBe(
+        correction.paragraphStyle!.styleName || correction.paragraphStyle!.builtIn
+      );
+    });
+
+    it("refuses a correction whose paragraph was edited outside the review", async () => {
+      const correction = firstOfType("deletion");
+      document.insertCharacters(document.paragraphs[paragraphIndexOf(correction)], 0, "Edited ");
+
+      expect(await manager.applySpecificCorrection(correction.id)).toBe(false);
+      expect(manager.getCorrections().filter((c) => c.id === correction.id)[0].status).toBe(
+        "pending"
+      );
+    });
+
+    it("keeps the audit context of a correction as found after a sibling is applied", async () => {
+      // A sibling close enough that its context window takes in the first edit
+      const pairs = corrections
+        .filter((c) => c.changeType !== "style" && c.changeType !== "formatting")
+        .map((c) => [
+          c,
+          corrections.filter(
+            (n) =>
+              n.changeType !== "style" &&
+              n.changeType !== "formatting" &&
+              n.wordParagraphIndex === c.wordParagraphIndex &&
+              n.startOffset > c.endOffset &&
+              n.startOffset - c.endOffset < 20
+          )[0],
+        ]);
+      const [first, second] = pairs.filter((pair) => !!pair[1])[0] || [];
+      if (!second) throw new Error("test-document.json has no two text corrections close together");
+      const contextOf = (reviewed: CorrectionObject[]) => {
+        const entry = buildAuditReport(reviewed).entries.filter(
+          (e) => e.correctionId === second.id
+        )[0];
+        return {
+          before: entry.before,
+          after: entry.after,
+          originStartOffset: entry.originStartOffset,
+          originEndOffset: entry.originEndOffset,
+        };
+      };
+      const expected = contextOf(corrections);
+
+      expect(await manager.applySpecificCorrection(first.id)).toBe(true);
+
+      const rebased = manager.getCorrections().filter((c) => c.id === second.id)[0];
+      expect(rebased.originalText).not.toBe(second.originalText);
+      expect(contextOf(manager.getCorrections())).toEqual(expected);
+    });
+
+    it("applies a correction once when it is accepted twice before the first finishes", async () => {
+      const correction = firstOfType("deletion");
+      const expected =
+        correction.originalText.substring(0, correction.startOffset) +
+        correction.originalText.substring(correction.endOffset);
+
+      const results = await Promise.all([
+        manager.applySpecificCorrection(correction.id),
+        manager.applySpecificCorrection(correction.id),
+      ]);
+
+      expect(results).toEqual([true, false]);
+      expect(document.paragraphText(paragraphIndexOf(correction))).toBe(expected);
+      expect(
+        document.revisions.filter((revision) => revision.paraId === correction.wordNativeParaId)
+      ).toHaveLength(1);
+    });
+
+    it("does not apply a correction twice", async () => {
+      const correction = firstOfType("deletion");
+      await manager.applySpecificCorrection(correction.id);
+      const after = document.getText();
+
+      expect(await manager.applySpecificCorrection(correction.id)).toBe(false);
+      expect(document.getText()).toBe(after);
+    });
+
+    it("marks deletions with strikethrough instead of deleting them in formatting mode", async () => {
+      await manager.endReview();
+      await manager.startReview(corrections, { applyMode: "formatting" });
+      const correction = firstOfType("deletion");
+
+      expect(await manager.applySpecificCorrection(correction.id)).toBe(true);
+
+      expect(document.paragraphText(paragraphIndexOf(correction))).toBe(correction.originalText);
+      expect(
+        document.fontAt(paragraphIndexOf(correction), correction.startOffset).strikeThrough
+      ).toBe(true);
+      expect(document.revisions).toHaveLength(0);
+    });
+
+    it("reproduces the edited text of every paragraph when all corrections are accepted", async () => {
+      await manager.applyAllPendingCorrections();
+
+      expect(manager.getProgress().pending).toBe(0);
+      testDocument.paragraphs.forEach((paragraph, index) => {
+        expect(document.paragraphText(index)).toBe(
+          parseMarkedText(paragraph.latest_edited_text).text
+        );
+      });
+    });
+  });
+
+  describe("skipCurrentCorrection", () => {
+    it("leaves a correction that was already decided alone", async () => {
+      await manager.startReview(corrections);
+      const first = manager.getCurrentCorrection()!;
+      manager.rejectCurrentCorrection();
+      await manager.previousCorrection();
+      expect(manager.getCurrentCorrection()!.id).toBe(first.id);
+
+      manager.skipCurrentCorrection();
+
+      expect(manager.getCurrentCorrection()!.id).toBe(first.id);
+      expect(manager.getCorrections().filter((c) => c.id === first.id)[0].status).toBe("rejected");
+    });
+  });
+
+  describe("undo", () => {
+    beforeEach(async () => {
+      await manager.startReview(corrections);
+    });
+
+    it("reverses an accept on its own span, so a sibling still applies afterwards", async () => {
+      const [first, second] = firstSiblingGroup();
+      const paragraph = document.paragraphs[paragraphIndexOf(first)];
+      const paraId = paragraph.paraId;
+
+      const revisionsOf = () =>
+        document.revisions.filter((revision) => revision.paraId === paraId).length;
+
+      expect(await manager.applySpecificCorrection(first.id)).toBe(true);
+      const revisionsAfterAccept = revisionsOf();
+      expect(await manager.undo()).toBe(true);
+
+      // The reversal is tracked like the edit was, not written over the paragraph
+      expect(revisionsOf()).toBeGreaterThan(revisionsAfterAccept);
+      expect(document.paragraphText(paragraphIndexOf(first))).toBe(first.originalText);
+      expect(manager.getCorrections().filter((c) => c.id === first.id)[0].status).toBe("pending");
+      expect(previewTags()).toContain(`${PREVIEW_TAG_PREFIX}${first.id}`);
+
+      expect(await manager.applySpecificCorrection(second.id)).toBe(true);
+      expect(document.paragraphText(paragraphIndexOf(first))).toBe(
+        applyTextCorrections(first.originalText, [second])
+      );
+      expect(document.paragraphs[paragraphIndexOf(first)].paraId).toBe(paraId);
+    });
+
+    it("makes the edit again on redo", async () => {
+      const [first, second] = firstSiblingGroup();
+
+      await manager.applySpecificCorrection(first.id);
+      await manager.undo();
+      expect(await manager.redo()).toBe(true);
+      expect(await manager.applySpecificCorrection(second.id)).toBe(true);
+
+      expect(document.paragraphText(paragraphIndexOf(first))).toBe(
+        applyTextCorrections(first.originalText, [first, second])
+      );
+      expect(previewTags()).not.toContain(`${PREVIEW_TAG_PREFIX}${first.id}`);
+    });
+  });
+
+  describe("resumeReview", () => {
+    it("saves only decisions and offsets, and resumes from corrections regenerated from the JSON", async () => {
+      await manager.startReview(corrections);
+      const [first, second] = firstSiblingGroup();
+      expect(await manager.applySpecificCorrection(first.id)).toBe(true);
+      await new Promise((resolve) => setTimeout(resolve, 600));
+
+      const saved = readPersistedSession()!;
+      const savedFirst = saved.corrections.filter((c) => c.id === first.id)[0];
+      expect(Object.keys(savedFirst).sort()).toEqual([
+        "decidedAt",
+        "endOffset",
+        "id",
+        "startOffset",
+        "status",
+      ]);
+
+      // A new task pane: regenerate from the JSON and the edited document
+      const regenerated = (
+        await runWithMockContext(document, (context) =>
+          processCorrectionData(context, testDocument, { fromJsonOriginal: true })
+        )
+      ).corrections;
+      manager = new CorrectionReviewManager();
+      await manager.resumeReview(saved, regenerated);
+
+      const resumed = manager.getCorrections();
+      expect(resumed.map((c) => c.id)).toEqual(corrections.map((c) => c.id));
+      expect(resumed.filter((c) => c.id === first.id)[0].status).toBe("applied");
+      expect(await manager.applySpecificCorrection(second.id)).toBe(true);
+      expect(document.paragraphText(paragraphIndexOf(first))).toBe(
+        applyTextCorrections(first.originalText, [first, second])
+      );
+    });
+  });
+
+  describe("removeHighlight", () => {
+    beforeEach(async () => {
+      await manager.startReview(corrections);
+    });
+
+    it("removes only the accepted correction's mark and keeps its text", async () => {
+      const correction = firstOfType("modification");
+      const markCount = document.contentControls.length;
+
+      await manager.applySpecificCorrection(correction.id);
+
+      expect(previewTags()).not.toContain(`${PREVIEW_TAG_PREFIX}${correction.id}`);
+      expect(document.contentControls).toHaveLength(markCount - 1);
+      expect(document.paragraphText(paragraphIndexOf(correction))).toContain(
+        correction.replacementText
+      );
+    });
+
+    it("keeps the marks of rejected corrections until the review ends", async () => {
+      const correction = firstOfType("deletion");
+
+      await manager.rejectSpecificCorrection(correction.id);
+      expect(previewTags()).toContain(`${PREVIEW_TAG_PREFIX}${correction.id}`);
+
+      const before = document.getText();
+      await manager.endReview();
+      expect(document.contentControls).toHaveLength(0);
+      expect(document.getText()).toBe(before);
+    });
+  });
+});
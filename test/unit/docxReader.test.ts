@@ -0,0 +1,47 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  readDocxParagraphs,
+  readStyleNames,
+  paragraphInlineStyles,
+} from "../../src/cli/docxReader";
+
+const IRANI_DOCX = path.join(__dirname, "../../correct_irani_file.docx");
+
+describe("readDocxParagraphs", () => {
+  it("reads the style ID and display name of a styled paragraph", () => {
+    const paragraphs = readDocxParagraphs(fs.readFileSync(IRANI_DOCX));
+    const title = paragraphs.filter(
+      (paragraph) => paragraph.text.indexOf("Approach to Neuropsychological Assessment") === 0
+    )[0];
+
+    expect(title).toMatchObject({ styleBuiltIn: "Chaptitle", style: "Chap_title" });
+  });
+});
+
+describe("readStyleNames", () => {
+  it("reads attributes wherever they sit in the start tag", () => {
+    const stylesXml =
+      '<w:styles><w:style w:styleId="Heading2" w:type="paragraph"><w:name w:val="heading 2"/></w:style></w:styles>';
+
+    expect(readStyleNames(stylesXml)).toEqual({ Heading2: "heading 2" });
+  });
+});
+
+describe("paragraphInlineStyles", () => {
+  it("reads the direct styles of each character, ignoring off values and replaced properties", () => {
+    const paragraphXml =
+      '<w:r><w:rPr><w:b/><w:i w:val="0"/></w:rPr><w:t>ab</w:t></w:r>' +
+      '<w:r><w:rPr><w:i/><w:rPrChange w:id="1"><w:rPr><w:b/></w:rPr></w:rPrChange></w:rPr><w:tab/><w:t>c</w:t></w:r>' +
+      '<w:del><w:r><w:rPr><w:u w:val="single"/></w:rPr><w:delText>gone</w:delText></w:r></w:del>' +
+      '<w:r><w:rPr><w:vertAlign w:val="superscript"/></w:rPr><w:t>2</w:t></w:r>';
+
+    expect(paragraphInlineStyles(paragraphXml)).toEqual([
+      ["bold"],
+      ["bold"],
+      ["italic"],
+      ["italic"],
+      ["superscript"],
+    ]);
+  });
+});
@@ -0,0 +1,45 @@
+import * as fs from "fs";
+import * as path from "path";
+import { generateCorrections, CorrectionObject } from "../../src/taskpane/utils/documentMapping";
+import { readDocxParagraphs } from "../../src/cli/docxReader";
+import { applyCorrectionsToDocx } from "../../src/cli/docxRevisionWriter";
+import { loadCorpus, CorpusFixture } from "../regression/fixtures";
+
+const IRANI_DOCX = path.join(__dirname, "../../correct_irani_file.docx");
+
+describe("applyCorrectionsToDocx", () => {
+  const fixture: CorpusFixture = loadCorpus().filter(
+    (corpusFixture) => corpusFixture.name === "irani-docx"
+  )[0];
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("writes every accepted correction, so diffing the revised document finds nothing left", async () => {
+    const docx = fs.readFileSync(IRANI_DOCX);
+    const before = await generateCorrections(fixture.documentData, readDocxParagraphs(docx));
+    expect(
+      before.corrections.filter((correction) => correction.changeType === "style").length
+    ).toBeGreaterThan(0);
+
+    const accepted = before.corrections.map((correction) => ({
+      ...correction,
+      status: "applied" as CorrectionObject["status"],
+    }));
+    const revised = applyCorrectionsToDocx(docx, accepted, {
+      author: "Reviewer",
+      date: new Date(0),
+    });
+
+    expect(revised.skipped).toEqual([]);
+    expect(revised.applied).toHaveLength(before.corrections.length);
+    const after = await generateCorrections(fixture.documentData, readDocxParagraphs(revised.docx));
+    expect(after.corrections.map((correction) => correction.suggestion)).toEqual([]);
+  });
+});
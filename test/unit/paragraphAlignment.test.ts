@@ -0,0 +1,78 @@
+import { alignParagraphs, AlignableParagraph } from "../../src/taskpane/utils/paragraphAlignment";
+
+const paragraph = (text: string, paraId: string | null = null): AlignableParagraph => ({
+  text,
+  paraId,
+});
+
+describe("alignParagraphs", () => {
+  it("keeps a shared native ID ahead of an exact text match elsewhere", () => {
+    const json = [
+      paragraph("The opening paragraph of the chapter.", "AAAA0001"),
+      paragraph("The closing paragraph of the chapter.", "AAAA0002"),
+    ];
+    const word = [
+      paragraph("The opening paragraph of the chapter.", null),
+      paragraph(
+        "An opening the editor rewrote from scratch, with far more to say about the subject than before.",
+        "AAAA0001"
+      ),
+      paragraph("The closing paragraph of the chapter.", "AAAA0002"),
+    ];
+
+    expect(
+      alignParagraphs(json, word).map((entry) => [
+        entry.outcome,
+        entry.jsonIndexes,
+        entry.wordIndexes,
+        entry.matchedById,
+      ])
+    ).toEqual([
+      ["insertedInWord", [], [0], false],
+      ["matched", [0], [1], true],
+      ["matched", [1], [2], true],
+    ]);
+  });
+
+  it("aligns paragraphs with unknown IDs by text between the anchors", () => {
+    const json = [
+      paragraph("Introduction to the topic at hand.", "AAAA0001"),
+      paragraph("Methods we used in the study and why.", "AAAA0002"),
+      paragraph("Results of the study in brief.", "AAAA0003"),
+    ];
+    const word = [
+      paragraph("Introduction to the topic at hand.", "AAAA0001"),
+      paragraph("Methods we used in the study, and why.", "BBBB0002"),
+      paragraph("Results of the study in brief.", "AAAA0003"),
+    ];
+
+    const alignment = alignParagraphs(json, word);
+
+    expect(alignment[1]).toMatchObject({
+      outcome: "matched",
+      jsonIndexes: [1],
+      wordIndexes: [1],
+      matchedById: false,
+    });
+    expect(alignment[1].similarity).toBeLessThan(1);
+  });
+
+  it("widens an anchor to a split when its neighbour holds the rest of the text", () => {
+    const json = [
+      paragraph("The first half of a long paragraph and then the second half of it.", "AAAA0001"),
+    ];
+    const word = [
+      paragraph("The first half of a long paragraph", "AAAA0001"),
+      paragraph("and then the second half of it.", "CCCC0001"),
+    ];
+
+    expect(alignParagraphs(json, word)).toEqual([
+      expect.objectContaining({
+        outcome: "split",
+        jsonIndexes: [0],
+        wordIndexes: [0, 1],
+        matchedById: true,
+      }),
+    ]);
+  });
+});
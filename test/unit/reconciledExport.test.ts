@@ -0,0 +1,90 @@
+import {
+  generateCorrections,
+  CorrectionObject,
+  CorrectionProcessingResult,
+  DocumentData,
+} from "../../src/taskpane/utils/documentMapping";
+import { buildReconciledDocument } from "../../src/taskpane/utils/reconciledExport";
+import { loadCorpus, CorpusFixture } from "../regression/fixtures";
+
+describe("buildReconciledDocument", () => {
+  // correct_irani_file.docx has the last JSON paragraph split in two
+  const fixture: CorpusFixture = loadCorpus().filter(
+    (corpusFixture) => corpusFixture.name === "irani-docx"
+  )[0];
+  let result: CorrectionProcessingResult;
+
+  const acceptAll = (corrections: CorrectionObject[]) =>
+    corrections.map((correction) => ({ ...correction, status: "applied" as const }));
+  const paragraphOf = (reconciled: DocumentData, paragraphNumber: number) =>
+    reconciled.paragraphs.filter((paragraph) => paragraph.paragraph_number === paragraphNumber)[0];
+
+  beforeAll(async () => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    result = await generateCorrections(fixture.documentData, fixture.paragraphs);
+    jest.restoreAllMocks();
+  });
+
+  it("resets a split paragraph to its input text and reports it", () => {
+    const split = result.paragraphMappings.filter((mapping) => mapping.outcome === "split")[0];
+    expect(split).toBeDefined();
+    const paragraphNumber = split.paragraphNumbers[0];
+    const source = paragraphOf(fixture.documentData, paragraphNumber);
+    expect(source.latest_edited_text).not.toBe(source.input_with_markers);
+
+    const reconciled = buildReconciledDocument(
+      fixture.documentData,
+      acceptAll(result.corrections),
+      {
+        paragraphMappings: result.paragraphMappings,
+      }
+    );
+
+    expect(paragraphOf(reconciled, paragraphNumber).latest_edited_text).toBe(
+      source.input_with_markers
+    );
+    expect(reconciled.word_review.warnings).toEqual([
+      `Paragraph ${paragraphNumber} was split in Word, so its edits were not reviewed - reset to the input text`,
+    ]);
+  });
+
+  it("keeps the pipeline text of matched paragraphs whose corrections were all accepted", () => {
+    const reconciled = buildReconciledDocument(
+      fixture.documentData,
+      acceptAll(result.corrections),
+      {
+        paragraphMappings: result.paragraphMappings,
+      }
+    );
+
+    result.paragraphMappings
+      .filter((mapping) => mapping.outcome === "matched")
+      .forEach((mapping) => {
+        const paragraphNumber = mapping.paragraphNumbers[0];
+        expect(paragraphOf(reconciled, paragraphNumber).latest_edited_text).toBe(
+          paragraphOf(fixture.documentData, paragraphNumber).latest_edited_text
+        );
+      });
+  });
+
+  it("resets a paragraph whose corrections carry no source text", () => {
+    const correction = result.corrections.filter((c) => c.changeType !== "style")[0];
+    const withoutOrigin = result.corrections
+      .filter((c) => c.paragraphNumber === correction.paragraphNumber)
+      .map((c) => ({
+        ...c,
+        origin: undefined,
+        status: c.id === correction.id ? ("rejected" as const) : ("applied" as const),
+      }));
+
+    const reconciled = buildReconciledDocument(fixture.documentData, withoutOrigin);
+
+    expect(paragraphOf(reconciled, correction.paragraphNumber).latest_edited_text).toBe(
+      paragraphOf(fixture.documentData, correction.paragraphNumber).input_with_markers
+    );
+    expect(reconciled.word_review.warnings).toEqual([
+      `Paragraph ${correction.paragraphNumber}: corrections carry no source text - reset to the input text`,
+    ]);
+  });
+});
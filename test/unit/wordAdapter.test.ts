@@ -0,0 +1,123 @@
+import * as fs from "fs";
+import * as path from "path";
+import { DocumentData } from "../../src/taskpane/utils/documentMapping";
+import {
+  processCorrectionData,
+  resolveCorrectionRange,
+  RANGE_BATCH_SIZE,
+} from "../../src/taskpane/utils/wordAdapter";
+import {
+  MockWordDocument,
+  installWordMock,
+  uninstallWordMock,
+  runWithMockContext,
+} from "../mocks/wordMock";
+import { makeCorrection } from "../helpers/correctionText";
+
+const testDocument: DocumentData = JSON.parse(
+  fs.readFileSync(path.join(__dirname, "../../test-document.json"), "utf8")
+);
+
+describe("processCorrectionData", () => {
+  let document: MockWordDocument;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    document = MockWordDocument.fromDocumentData(testDocument);
+    installWordMock(document);
+  });
+
+  afterEach(() => {
+    uninstallWordMock();
+    jest.restoreAllMocks();
+  });
+
+  it("maps every pipeline paragraph to its Word paragraph by native ID", async () => {
+    const result = await runWithMockContext(document, (context) =>
+      processCorrectionData(context, testDocument)
+    );
+
+    const mapped = result.paragraphMappings.filter((mapping) => mapping.outcome === "matched");
+    expect(mapped).toHaveLength(testDocument.paragraphs.length);
+    result.corrections.forEach((correction) => {
+      expect(correction.mappingStrategy).toBe("paraId");
+      expect(document.paragraphs[correction.wordParagraphIndex!].paraId).toBe(
+        correction.wordNativeParaId
+      );
+    });
+  });
+
+  it("resolves the Word range of each correction to the text it changes", async () => {
+    await runWithMockContext(document, async (context) => {
+      const result = await processCorrectionData(context, testDocument);
+      expect(result.corrections.length).toBeGreaterThan(0);
+
+      const textCorrections = result.corrections.filter(
+        (correction) => correction.changeType !== "style"
+      );
+      textCorrections.forEach((correction) => result.wordRanges[correction.id].load("text"));
+      await context.sync();
+
+      textCorrections.forEach((correction) => {
+        const expected =
+          correction.changeType === "addition"
+            ? ""
+            : correction.originalText.substring(correction.startOffset, correction.endOffset);
+        expect(result.wordRanges[correction.id].text).toBe(expected);
+      });
+    });
+  });
+
+  it("resolves ranges with one sync per batch of paragraphs, not per correction", async () => {
+    const result = await runWithMockContext(document, (context) =>
+      processCorrectionData(context, testDocument)
+    );
+    const paragraphsWithCorrections = new Set(
+      result.corrections.map((correction) => correction.wordParagraphIndex)
+    ).size;
+
+    // Paragraph read, paraId read, range batches and the closing sync of the batch
+    expect(result.corrections.length).toBeGreaterThan(paragraphsWithCorrections);
+    expect(document.syncCount).toBe(
+      2 + Math.ceil(paragraphsWithCorrections / RANGE_BATCH_SIZE) + 1
+    );
+  });
+
+  it("leaves the document untouched", async () => {
+    const before = document.getText();
+    await runWithMockContext(document, (context) => processCorrectionData(context, testDocument));
+    expect(document.getText()).toBe(before);
+    expect(document.contentControls).toHaveLength(0);
+  });
+});
+
+describe("resolveCorrectionRange", () => {
+  it("collapses a zero-width span onto its insertion point, past leading whitespace", async () => {
+    const document = new MockWordDocument(["  Hello world"]);
+    installWordMock(document);
+    try {
+      await runWithMockContext(document, async (context) => {
+        const paragraphs = context.document.body.paragraphs;
+        paragraphs.load("items");
+        await context.sync();
+
+        const range = await resolveCorrectionRange(
+          context,
+          paragraphs.items[0],
+          makeCorrection({
+            originalText: "Hello world",
+            startOffset: 5,
+            endOffset: 5,
+            diffText: ",",
+          })
+        );
+        range!.insertText(",", Word.InsertLocation.start);
+        await context.sync();
+      });
+      expect(document.paragraphText(0)).toBe("  Hello, world");
+    } finally {
+      uninstallWordMock();
+    }
+  });
+});